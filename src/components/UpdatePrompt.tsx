@@ -0,0 +1,24 @@
+import { useEffect } from "react";
+import { ToastAction } from "@/components/ui/toast";
+import { toast } from "@/hooks/use-toast";
+import { registerServiceWorker } from "@/lib/pwa";
+
+// Offers to reload when a new version of the app has been downloaded
+export const UpdatePrompt = () => {
+  useEffect(() => {
+    registerServiceWorker((applyUpdate) => {
+      toast({
+        title: "Update available",
+        description: "A new version of Daily Diet Scan is ready",
+        duration: Infinity,
+        action: (
+          <ToastAction altText="Reload to update" onClick={applyUpdate}>
+            Reload
+          </ToastAction>
+        ),
+      });
+    });
+  }, []);
+
+  return null;
+};
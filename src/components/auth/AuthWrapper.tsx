@@ -3,6 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { Session } from '@supabase/supabase-js';
 import { AuthForm } from './AuthForm';
 import { Card } from '@/components/ui/card';
+import { isLocalBackend } from '@/lib/repositories';
 
 interface AuthWrapperProps {
   children: React.ReactNode;
@@ -10,9 +11,12 @@ interface AuthWrapperProps {
 
 export const AuthWrapper = ({ children }: AuthWrapperProps) => {
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(!isLocalBackend);
 
   useEffect(() => {
+    // The local backend has a single user and nothing to sign in to
+    if (isLocalBackend) return;
+
     // Get initial session
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
@@ -36,7 +40,7 @@ export const AuthWrapper = ({ children }: AuthWrapperProps) => {
     );
   }
 
-  if (!session) {
+  if (!session && !isLocalBackend) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-secondary p-4">
         <Card className="w-full max-w-md p-8 bg-gradient-card shadow-medium">
@@ -1,44 +1,56 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { NutritionCard } from '@/components/nutrition/NutritionCard';
 import { FoodScanner } from '@/components/food/FoodScanner';
 import { FoodForm } from '@/components/food/FoodForm';
+import { AllergenBadges } from '@/components/food/AllergenBadges';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Plus, Utensils, Target } from 'lucide-react';
+import { BookOpen, Globe, Pencil, Plus, Utensils, Target } from 'lucide-react';
+import { SyncStatus } from './SyncStatus';
+import { DateNavigator } from './DateNavigator';
+import { MealGoalsDialog } from './MealGoalsDialog';
+import { TimeZoneDialog } from './TimeZoneDialog';
+import { useDayLog, useDayLogMutations, useOutboxSync } from '@/hooks/use-day-log';
 import { useToast } from '@/hooks/use-toast';
+import { toAllergens } from '@/lib/allergens';
+import { FoodEntry, reconcileDailyLogs, refileLegacyEntries } from '@/lib/daily-logs';
+import { deviceTimeZone, todayKey } from '@/lib/dates';
+import { loadMealGoals, MEAL_GOAL_KEYS, MEAL_NAMES, MEALS, saveMealGoals, toMeal } from '@/lib/meals';
+import { listOutbox } from '@/lib/outbox';
+import { CatalogProduct } from '@/lib/products';
+import { loadTimeZone, saveTimeZone, TimeZoneSetting } from '@/lib/profile';
+import { repository } from '@/lib/repositories';
+import { cn } from '@/lib/utils';
+import { LabelParseResult, MealGoals, MealType } from '@/types/nutrition';
 
-interface FoodEntry {
-  id: string;
-  food_name: string;
-  food_brand?: string;
-  quantity: number;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-}
+const mealSubtotal = (entries: FoodEntry[]) =>
+  Object.fromEntries(
+    MEAL_GOAL_KEYS.map((key) => [key, entries.reduce((sum, entry) => sum + entry[key], 0)])
+  ) as Required<MealGoals>;
 
-interface DailyLog {
-  total_calories: number;
-  total_protein: number;
-  total_carbs: number;
-  total_fat: number;
-}
-
-interface NutritionData {
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-}
+// Within 10% either side of the target
+const goalMet = (value: number, goal?: number) => goal !== undefined && Math.abs(value - goal) <= goal * 0.1;
 
 export const DailyDashboard = () => {
-  const [dailyLog, setDailyLog] = useState<DailyLog | null>(null);
-  const [foodEntries, setFoodEntries] = useState<FoodEntry[]>([]);
+  // Follows the device until the profile's setting has loaded
+  const [timeZone, setTimeZone] = useState<TimeZoneSetting>(() => ({ timeZone: deviceTimeZone(), automatic: true }));
+  const [editingTimeZone, setEditingTimeZone] = useState(false);
+  // daily_logs.date of the day being shown and logged to
+  const [date, setDate] = useState(() => todayKey(timeZone.timeZone));
+  const { data: day, error: dayError } = useDayLog(date);
+  const { remove: removeEntry } = useDayLogMutations();
+  const syncOutbox = useOutboxSync();
+  const queryClient = useQueryClient();
   const [showScanner, setShowScanner] = useState(false);
   const [showManualForm, setShowManualForm] = useState(false);
-  const [scannedNutrition, setScannedNutrition] = useState<NutritionData | null>(null);
+  const [editingEntry, setEditingEntry] = useState<FoodEntry | null>(null);
+  const [scanResult, setScanResult] = useState<LabelParseResult | null>(null);
+  const [barcode, setBarcode] = useState<string | null>(null);
+  const [product, setProduct] = useState<CatalogProduct | null>(null);
+  const [mealGoals, setMealGoals] = useState<Partial<Record<MealType, MealGoals>>>({});
+  const [editingGoals, setEditingGoals] = useState<MealType | null>(null);
   const { toast } = useToast();
 
   const defaultGoals = {
@@ -49,117 +61,127 @@ export const DailyDashboard = () => {
   };
 
   useEffect(() => {
-    loadTodayData();
-  }, []);
-
-  const loadTodayData = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) return;
-
-      const today = new Date().toISOString().split('T')[0];
-      
-      // Load daily log
-      const { data: logData } = await supabase
-        .from('daily_logs')
-        .select('*')
-        .eq('user_id', session.user.id)
-        .eq('date', today)
-        .single();
+    loadTimeZone()
+      .then((setting) => {
+        setTimeZone(setting);
+        // Still on "today" as the device saw it, so move to today in the profile's zone
+        setDate((prev) => (prev === todayKey(deviceTimeZone()) ? todayKey(setting.timeZone) : prev));
+      })
+      .catch((error) => console.error('Error loading time zone:', error));
+    loadMealGoals()
+      .then(setMealGoals)
+      .catch((error) => console.error('Error loading meal goals:', error));
+    // Totals written by older versions of the app may not match their entries
+    reconcileDailyLogs()
+      .then((repaired) => {
+        if (repaired > 0) queryClient.invalidateQueries({ queryKey: ['day'] });
+      })
+      .catch((error) => console.error('Error reconciling daily logs:', error));
+  }, [queryClient]);
 
-      if (logData) {
-        setDailyLog(logData);
-        
-        // Load food entries for today
-        const { data: entriesData } = await supabase
-          .from('food_entries')
-          .select('*')
-          .eq('daily_log_id', logData.id)
-          .order('created_at', { ascending: false });
+  useEffect(() => {
+    if (!dayError) return;
+    console.error('Error loading day data:', dayError);
+    toast({
+      title: "Error",
+      description: "Failed to load this day's data",
+      variant: "destructive",
+    });
+  }, [dayError, toast]);
 
-        setFoodEntries(entriesData || []);
-      } else {
-        // No log for today yet
-        setDailyLog({
-          total_calories: 0,
-          total_protein: 0,
-          total_carbs: 0,
-          total_fat: 0
-        });
-        setFoodEntries([]);
-      }
-    } catch (error) {
-      console.error('Error loading today data:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load today's data",
-        variant: "destructive",
-      });
-    }
+  const handleNutritionExtracted = (result: LabelParseResult, scannedBarcode?: string) => {
+    setScanResult(result);
+    setBarcode(scannedBarcode ?? null);
+    setShowScanner(false);
+    setShowManualForm(true);
   };
 
-  const handleNutritionExtracted = (nutrition: NutritionData) => {
-    setScannedNutrition(nutrition);
+  const handleProductFound = (found: CatalogProduct) => {
+    setProduct(found);
     setShowScanner(false);
     setShowManualForm(true);
   };
 
+  const clearScan = () => {
+    setScanResult(null);
+    setBarcode(null);
+    setProduct(null);
+  };
+
   const handleFoodAdded = () => {
-    loadTodayData();
     setShowManualForm(false);
     setShowScanner(false);
-    setScannedNutrition(null);
+    setEditingEntry(null);
+    clearScan();
   };
 
-  const deleteFoodEntry = async (entryId: string) => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) return;
-
-      const entry = foodEntries.find(e => e.id === entryId);
-      if (!entry) return;
+  const startEditing = (entry: FoodEntry) => {
+    setShowManualForm(false);
+    setShowScanner(false);
+    clearScan();
+    setEditingEntry(entry);
+  };
 
-      // Delete the entry
-      const { error: deleteError } = await supabase
-        .from('food_entries')
-        .delete()
-        .eq('id', entryId);
+  const handleSaveGoals = async (meal: MealType, goals: MealGoals) => {
+    try {
+      const userId = await repository.currentUserId();
+      if (!userId) return;
 
-      if (deleteError) throw deleteError;
+      await saveMealGoals(userId, meal, goals);
+      setMealGoals((prev) => ({ ...prev, [meal]: goals }));
+      setEditingGoals(null);
+    } catch (error) {
+      console.error('Error saving meal goals:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save meal goals",
+        variant: "destructive",
+      });
+    }
+  };
 
-      // Update daily log totals
-      if (dailyLog) {
-        const today = new Date().toISOString().split('T')[0];
-        const { error: updateError } = await supabase
-          .from('daily_logs')
-          .update({
-            total_calories: Math.max(0, dailyLog.total_calories - entry.calories),
-            total_protein: Math.max(0, dailyLog.total_protein - entry.protein),
-            total_carbs: Math.max(0, dailyLog.total_carbs - entry.carbs),
-            total_fat: Math.max(0, dailyLog.total_fat - entry.fat),
-          })
-          .eq('user_id', session.user.id)
-          .eq('date', today);
+  const handleSaveTimeZone = async (zone: string | null) => {
+    try {
+      const userId = await repository.currentUserId();
+      if (!userId) return;
 
-        if (updateError) throw updateError;
-      }
+      await saveTimeZone(userId, zone);
+      const setting = { timeZone: zone ?? deviceTimeZone(), automatic: !zone };
+      // Refiling writes to the server directly, so queued changes go first
+      // and any that are still waiting keep their entries where they are
+      await syncOutbox();
+      const waiting = (await listOutbox(userId)).map((item) => item.id);
+      const moved = await refileLegacyEntries(userId, setting.timeZone, waiting);
 
+      setTimeZone(setting);
+      setEditingTimeZone(false);
       toast({
-        title: "Deleted",
-        description: "Food entry removed",
+        title: "Time zone saved",
+        description: moved > 0
+          ? `Moved ${moved} older ${moved === 1 ? 'entry' : 'entries'} to the day ${moved === 1 ? 'it was' : 'they were'} eaten`
+          : `Days now follow ${setting.timeZone.replace(/_/g, ' ')}`,
       });
 
-      loadTodayData();
+      // Entries may have moved between any of the days
+      queryClient.invalidateQueries({ queryKey: ['day'] });
+      setDate(todayKey(setting.timeZone));
     } catch (error) {
-      console.error('Error deleting food entry:', error);
+      console.error('Error saving time zone:', error);
       toast({
         title: "Error",
-        description: "Failed to delete entry",
+        description: "Failed to save time zone",
         variant: "destructive",
       });
     }
   };
 
+  const isToday = date === todayKey(timeZone.timeZone);
+
+  const foodEntries = day?.entries ?? [];
+  const entriesByMeal = Object.fromEntries(
+    MEALS.map((meal) => [meal, foodEntries.filter((entry) => toMeal(entry.meal) === meal)])
+  ) as Record<MealType, FoodEntry[]>;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-secondary p-4">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -168,26 +190,26 @@ export const DailyDashboard = () => {
           <h1 className="text-4xl font-bold bg-gradient-primary bg-clip-text text-transparent mb-2">
             Daily Diet Scan
           </h1>
-          <p className="text-muted-foreground">
-            {new Date().toLocaleDateString('en-US', { 
-              weekday: 'long', 
-              year: 'numeric', 
-              month: 'long', 
-              day: 'numeric' 
-            })}
-          </p>
+          <DateNavigator date={date} timeZone={timeZone.timeZone} onChange={setDate} />
+          <div className="flex justify-center gap-2 mt-1">
+            <Button asChild variant="link" size="sm">
+              <Link to="/foods" className="flex items-center gap-1">
+                <BookOpen className="w-4 h-4" />
+                Food Library
+              </Link>
+            </Button>
+            <Button variant="link" size="sm" onClick={() => setEditingTimeZone(true)} className="flex items-center gap-1">
+              <Globe className="w-4 h-4" />
+              {timeZone.timeZone.replace(/_/g, ' ')}
+            </Button>
+          </div>
         </div>
 
-        {/* Today's Nutrition Overview */}
-        {dailyLog && (
+        {/* Day's Nutrition Overview */}
+        {day && (
           <NutritionCard
-            title="Today's Progress"
-            nutrition={{
-              calories: dailyLog.total_calories,
-              protein: dailyLog.total_protein,
-              carbs: dailyLog.total_carbs,
-              fat: dailyLog.total_fat
-            }}
+            title={isToday ? "Today's Progress" : "Day's Progress"}
+            nutrition={day.totals}
             goals={defaultGoals}
           />
         )}
@@ -217,7 +239,10 @@ export const DailyDashboard = () => {
         {/* Scanner */}
         {showScanner && (
           <div className="space-y-4">
-            <FoodScanner onNutritionExtracted={handleNutritionExtracted} />
+            <FoodScanner
+              onNutritionExtracted={handleNutritionExtracted}
+              onProductFound={handleProductFound}
+            />
             <Button
               onClick={() => setShowScanner(false)}
               variant="outline"
@@ -232,13 +257,17 @@ export const DailyDashboard = () => {
         {showManualForm && (
           <div className="space-y-4">
             <FoodForm
-              initialNutrition={scannedNutrition || undefined}
+              scanResult={scanResult || undefined}
+              product={product || undefined}
+              barcode={barcode || undefined}
+              date={date}
+              timeZone={timeZone.timeZone}
               onFoodAdded={handleFoodAdded}
             />
             <Button
               onClick={() => {
                 setShowManualForm(false);
-                setScannedNutrition(null);
+                clearScan();
               }}
               variant="outline"
               className="w-full"
@@ -248,53 +277,134 @@ export const DailyDashboard = () => {
           </div>
         )}
 
-        {/* Today's Food Entries */}
-        {foodEntries.length > 0 && (
-          <Card className="p-6 bg-gradient-card shadow-soft">
-            <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-              <Target className="w-5 h-5" />
-              Today's Foods
-            </h3>
-            <div className="space-y-3">
-              {foodEntries.map((entry) => (
-                <div
-                  key={entry.id}
-                  className="flex items-center justify-between p-3 bg-background/50 rounded-lg"
-                >
-                  <div className="flex-1">
-                    <h4 className="font-medium">
-                      {entry.food_name}
-                      {entry.food_brand && (
-                        <span className="text-sm text-muted-foreground ml-1">
-                          ({entry.food_brand})
-                        </span>
-                      )}
-                    </h4>
-                    <p className="text-sm text-muted-foreground">
-                      {entry.quantity}x serving • {Math.round(entry.calories)} cal
-                    </p>
-                  </div>
-                  <div className="flex items-center gap-4">
-                    <div className="text-xs text-muted-foreground text-right">
-                      <div>P: {Math.round(entry.protein)}g</div>
-                      <div>C: {Math.round(entry.carbs)}g</div>
-                      <div>F: {Math.round(entry.fat)}g</div>
+        {/* Edit Entry Form */}
+        {editingEntry && (
+          <div className="space-y-4">
+            <FoodForm
+              key={editingEntry.id}
+              entry={editingEntry}
+              date={date}
+              timeZone={timeZone.timeZone}
+              onFoodAdded={handleFoodAdded}
+            />
+            <Button
+              onClick={() => setEditingEntry(null)}
+              variant="outline"
+              className="w-full"
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {/* Day's Food Entries, under every meal so goals can be set before logging */}
+        <Card className="p-6 bg-gradient-card shadow-soft">
+          <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <Target className="w-5 h-5" />
+            {isToday ? "Today's Foods" : "Foods Eaten"}
+          </h3>
+          <div className="space-y-6">
+            {MEALS.map((meal) => {
+              const subtotal = mealSubtotal(entriesByMeal[meal]);
+              const goals = mealGoals[meal] ?? {};
+
+              return (
+                <div key={meal} className="space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h4 className="font-semibold">{MEAL_NAMES[meal]}</h4>
+                      <p className="text-xs text-muted-foreground">
+                        {MEAL_GOAL_KEYS.map((key) => (
+                          <span key={key} className={cn('mr-3', goalMet(subtotal[key], goals[key]) && 'text-primary font-medium')}>
+                            {key === 'calories' ? '' : `${key[0].toUpperCase()}: `}
+                            {Math.round(subtotal[key])}
+                            {goals[key] !== undefined && `/${goals[key]}`}
+                            {key === 'calories' ? ' cal' : 'g'}
+                          </span>
+                        ))}
+                      </p>
                     </div>
                     <Button
-                      onClick={() => deleteFoodEntry(entry.id)}
+                      onClick={() => setEditingGoals(meal)}
                       variant="ghost"
                       size="sm"
-                      className="text-destructive hover:text-destructive"
+                      className="text-xs text-muted-foreground"
                     >
-                      ✕
+                      <Target className="w-3 h-3 mr-1" />
+                      {Object.keys(goals).length > 0 ? 'Edit goal' : 'Set goal'}
                     </Button>
                   </div>
+                  {entriesByMeal[meal].length === 0 && (
+                    <p className="text-sm text-muted-foreground">Nothing logged yet</p>
+                  )}
+                  {entriesByMeal[meal].map((entry) => (
+                    <div
+                      key={entry.id}
+                      className="flex items-center justify-between p-3 bg-background/50 rounded-lg"
+                    >
+                      <div className="flex-1">
+                        <h4 className="font-medium">
+                          {entry.food_name}
+                          {entry.food_brand && (
+                            <span className="text-sm text-muted-foreground ml-1">
+                              ({entry.food_brand})
+                            </span>
+                          )}
+                        </h4>
+                        <p className="text-sm text-muted-foreground flex items-center gap-2">
+                          {entry.quantity}x serving • {Math.round(entry.calories)} cal
+                          <SyncStatus unsynced={day.unsynced[entry.id]} />
+                        </p>
+                        <AllergenBadges allergens={toAllergens(entry.allergens)} className="mt-1" />
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <div className="text-xs text-muted-foreground text-right">
+                          <div>P: {entry.less_than?.includes('protein') && '<'}{Math.round(entry.protein)}g</div>
+                          <div>C: {entry.less_than?.includes('carbs') && '<'}{Math.round(entry.carbs)}g</div>
+                          <div>F: {entry.less_than?.includes('fat') && '<'}{Math.round(entry.fat)}g</div>
+                        </div>
+                        <Button
+                          onClick={() => startEditing(entry)}
+                          variant="ghost"
+                          size="sm"
+                          aria-label={`Edit ${entry.food_name}`}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          onClick={() => removeEntry(entry, date)}
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive"
+                        >
+                          ✕
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          </Card>
-        )}
+              );
+            })}
+          </div>
+        </Card>
       </div>
+
+      {editingTimeZone && (
+        <TimeZoneDialog
+          setting={timeZone}
+          onSave={handleSaveTimeZone}
+          onClose={() => setEditingTimeZone(false)}
+        />
+      )}
+
+      {editingGoals && (
+        <MealGoalsDialog
+          meal={editingGoals}
+          goals={mealGoals[editingGoals] ?? {}}
+          onSave={(goals) => handleSaveGoals(editingGoals, goals)}
+          onClose={() => setEditingGoals(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
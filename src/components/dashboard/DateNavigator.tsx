@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { calendarDayKey, fromDateKey, shiftDateKey, todayKey } from '@/lib/dates';
+
+interface DateNavigatorProps {
+  // daily_logs.date of the day being shown
+  date: string;
+  // Decides which day is today
+  timeZone: string;
+  onChange: (date: string) => void;
+}
+
+export const DateNavigator = ({ date, timeZone, onChange }: DateNavigatorProps) => {
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const today = todayKey(timeZone);
+  // Keys sort the same way as the dates they stand for
+  const isFuture = (key: string) => key > today;
+
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <Button variant="ghost" size="icon" onClick={() => onChange(shiftDateKey(date, -1))} aria-label="Previous day">
+        <ChevronLeft className="w-4 h-4" />
+      </Button>
+
+      <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" className="flex items-center gap-2 text-muted-foreground">
+            <CalendarDays className="w-4 h-4" />
+            {fromDateKey(date).toLocaleDateString('en-US', {
+              weekday: 'long',
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric'
+            })}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="center">
+          <Calendar
+            mode="single"
+            selected={fromDateKey(date)}
+            defaultMonth={fromDateKey(date)}
+            onSelect={(day) => {
+              if (!day) return;
+              onChange(calendarDayKey(day));
+              setCalendarOpen(false);
+            }}
+            disabled={(day) => isFuture(calendarDayKey(day))}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onChange(shiftDateKey(date, 1))}
+        disabled={isFuture(shiftDateKey(date, 1))}
+        aria-label="Next day"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </Button>
+
+      {date !== today && (
+        <Button variant="outline" size="sm" onClick={() => onChange(today)}>
+          Today
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MEAL_GOAL_KEYS, MEAL_NAMES } from '@/lib/meals';
+import { NUTRIENT_INFO } from '@/lib/nutrients';
+import { MealGoals, MealType } from '@/types/nutrition';
+
+interface MealGoalsDialogProps {
+  meal: MealType;
+  goals: MealGoals;
+  onSave: (goals: MealGoals) => Promise<void>;
+  onClose: () => void;
+}
+
+export const MealGoalsDialog = ({ meal, goals, onSave, onClose }: MealGoalsDialogProps) => {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(MEAL_GOAL_KEYS.map((key) => [key, goals[key]?.toString() ?? '']))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const updated: MealGoals = {};
+    for (const key of MEAL_GOAL_KEYS) {
+      const value = parseFloat(values[key]);
+      if (!isNaN(value) && value > 0) updated[key] = value;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(updated);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{MEAL_NAMES[meal]} goals</DialogTitle>
+          <DialogDescription>Leave a field blank for no target.</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          {MEAL_GOAL_KEYS.map((key) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`goal-${key}`}>
+                {NUTRIENT_INFO[key].name} ({NUTRIENT_INFO[key].unit})
+              </Label>
+              <Input
+                id={`goal-${key}`}
+                type="number"
+                min="0"
+                value={values[key]}
+                onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,34 @@
+import { AlertCircle, Check, Clock } from 'lucide-react';
+
+interface SyncStatusProps {
+  // The entry's value in DayLog.unsynced: missing once the server has the
+  // entry, null while it waits to be sent, or why the server turned it down
+  unsynced: string | null | undefined;
+}
+
+export const SyncStatus = ({ unsynced }: SyncStatusProps) => {
+  if (unsynced === undefined) {
+    return (
+      <span className="inline-flex items-center text-xs" title="Synced">
+        <Check className="w-3 h-3" />
+        <span className="sr-only">Synced</span>
+      </span>
+    );
+  }
+
+  if (unsynced === null) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-amber-600" title="Saved on this device">
+        <Clock className="w-3 h-3" />
+        Waiting to sync
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-destructive" title={unsynced}>
+      <AlertCircle className="w-3 h-3" />
+      Not synced
+    </span>
+  );
+};
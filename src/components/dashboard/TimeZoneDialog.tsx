@@ -0,0 +1,77 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { deviceTimeZone, listTimeZones } from '@/lib/dates';
+import { TimeZoneSetting } from '@/lib/profile';
+
+interface TimeZoneDialogProps {
+  setting: TimeZoneSetting;
+  // null follows the device's zone
+  onSave: (timeZone: string | null) => Promise<void>;
+  onClose: () => void;
+}
+
+const AUTOMATIC = 'automatic';
+
+export const TimeZoneDialog = ({ setting, onSave, onClose }: TimeZoneDialogProps) => {
+  const [value, setValue] = useState(setting.automatic ? AUTOMATIC : setting.timeZone);
+  const [isSaving, setIsSaving] = useState(false);
+  const timeZones = useMemo(listTimeZones, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(value === AUTOMATIC ? null : value);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Time zone</DialogTitle>
+          <DialogDescription>
+            Meals are filed under the day they were eaten in this zone. Entries you already logged stay on their
+            day, apart from older ones filed by UTC time, which move to the right day.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="timeZone">Zone</Label>
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger id="timeZone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+              <SelectItem value={AUTOMATIC}>Automatic ({deviceTimeZone()})</SelectItem>
+              {timeZones.map((zone) => (
+                <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Automatic follows this device, so days switch over locally while you travel.
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,30 @@
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { ALLERGEN_NAMES } from '@/lib/allergens';
+import { cn } from '@/lib/utils';
+
+import { Allergen } from '@/types/nutrition';
+
+interface AllergenBadgesProps {
+  allergens: Allergen[];
+  className?: string;
+}
+
+export const AllergenBadges = ({ allergens, className }: AllergenBadgesProps) => {
+  if (allergens.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1', className)}>
+      <AlertTriangle className="w-3 h-3 text-amber-600" />
+      {allergens.map((allergen) => (
+        <Badge
+          key={allergen}
+          variant="outline"
+          className="border-amber-500 text-amber-700 px-1.5 py-0 text-[10px]"
+        >
+          {ALLERGEN_NAMES[allergen]}
+        </Badge>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Camera, Flashlight, FlashlightOff, Loader2 } from 'lucide-react';
+import { decodeBarcode } from '@/lib/barcode';
+import { CropRect } from '@/lib/image-preprocessing';
+import { FrameSample, measureMotion, measureSharpness, sampleFrame } from '@/lib/frame-analysis';
+import { cn } from '@/lib/utils';
+
+interface CameraCaptureProps {
+  onCapture: (file: File, crop: CropRect) => void;
+  onCancel: () => void;
+  onUnavailable: () => void;
+  // Called once for each new barcode seen in the frame
+  onBarcode?: (barcode: string) => void;
+}
+
+// Framing guide as a fraction of the video frame; nutrition panels are tall
+const GUIDE = { x: 0.2, y: 0.075, width: 0.6, height: 0.85 };
+const SAMPLE_WIDTH = 120;
+const SAMPLE_HEIGHT = 170;
+const ANALYZE_INTERVAL_MS = 150;
+// Tuned on phone cameras: text in focus scores well above this
+const SHARPNESS_THRESHOLD = 120;
+const MOTION_THRESHOLD = 4;
+// Frames in a row that must be sharp and still before the shot is taken
+const STABLE_FRAMES = 5;
+// Barcode search is slower than the focus checks, so it runs less often
+const BARCODE_EVERY_FRAMES = 4;
+
+export const CameraCapture = ({ onCapture, onCancel, onUnavailable, onBarcode }: CameraCaptureProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const capturedRef = useRef(false);
+  const barcodeRef = useRef<string | null>(null);
+  const [isStarting, setIsStarting] = useState(true);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [sharpness, setSharpness] = useState(0);
+  const [stableFrames, setStableFrames] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false,
+      })
+      .then(async (stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        const [track] = stream.getVideoTracks();
+        const capabilities = track.getCapabilities?.() as MediaTrackCapabilities & { torch?: boolean };
+        setTorchSupported(!!capabilities?.torch);
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        setIsStarting(false);
+      })
+      .catch((error) => {
+        console.error('Camera error:', error);
+        if (!cancelled) onUnavailable();
+      });
+
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    };
+  }, [onUnavailable]);
+
+  const guideRect = (video: HTMLVideoElement): CropRect => ({
+    x: video.videoWidth * GUIDE.x,
+    y: video.videoHeight * GUIDE.y,
+    width: video.videoWidth * GUIDE.width,
+    height: video.videoHeight * GUIDE.height,
+  });
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || capturedRef.current || !video.videoWidth) return;
+    capturedRef.current = true;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    const crop = guideRect(video);
+
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          capturedRef.current = false;
+          return;
+        }
+        onCapture(new File([blob], `label-${Date.now()}.jpg`, { type: 'image/jpeg' }), crop);
+      },
+      'image/jpeg',
+      0.92
+    );
+  };
+
+  // The frame watcher below runs on a timer, so it reaches the latest
+  // capture and onBarcode through refs instead of restarting when they change
+  const captureRef = useRef(capture);
+  const onBarcodeRef = useRef(onBarcode);
+  useEffect(() => {
+    captureRef.current = capture;
+    onBarcodeRef.current = onBarcode;
+  });
+
+  // Watch the guide area for a sharp, steady frame
+  useEffect(() => {
+    if (isStarting) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = SAMPLE_WIDTH;
+    canvas.height = SAMPLE_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    let previous: FrameSample | null = null;
+    let stable = 0;
+    let frames = 0;
+    let decoding = false;
+
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!ctx || !video || !video.videoWidth) return;
+
+      const frame = sampleFrame(ctx, video, guideRect(video), SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      const score = measureSharpness(frame);
+      const still = previous ? measureMotion(previous, frame) < MOTION_THRESHOLD : false;
+      previous = frame;
+
+      stable = score >= SHARPNESS_THRESHOLD && still ? stable + 1 : 0;
+      setSharpness(score);
+      setStableFrames(stable);
+
+      if (autoCapture && stable >= STABLE_FRAMES) captureRef.current();
+
+      frames++;
+      if (onBarcodeRef.current && !decoding && frames % BARCODE_EVERY_FRAMES === 0) {
+        decoding = true;
+        decodeBarcode(video, video.videoWidth, video.videoHeight)
+          .then((barcode) => {
+            if (barcode && barcode !== barcodeRef.current) {
+              barcodeRef.current = barcode;
+              onBarcodeRef.current?.(barcode);
+            }
+          })
+          .catch((error) => console.error('Barcode error:', error))
+          .finally(() => {
+            decoding = false;
+          });
+      }
+    }, ANALYZE_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isStarting, autoCapture]);
+
+  const toggleTorch = async () => {
+    const [track] = streamRef.current?.getVideoTracks() ?? [];
+    if (!track) return;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] });
+      setTorchOn(!torchOn);
+    } catch (error) {
+      console.error('Torch error:', error);
+      setTorchSupported(false);
+    }
+  };
+
+  const focused = sharpness >= SHARPNESS_THRESHOLD;
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="relative overflow-hidden rounded-lg bg-black">
+        <video ref={videoRef} className="block w-full" playsInline muted />
+        {isStarting && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 animate-spin text-white" />
+          </div>
+        )}
+        <div
+          className={cn(
+            'absolute border-4 rounded-md pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] transition-colors',
+            focused ? 'border-green-400' : 'border-white/80'
+          )}
+          style={{
+            left: `${GUIDE.x * 100}%`,
+            top: `${GUIDE.y * 100}%`,
+            width: `${GUIDE.width * 100}%`,
+            height: `${GUIDE.height * 100}%`,
+          }}
+        />
+        <p className="absolute bottom-2 inset-x-0 text-center text-xs text-white">
+          {focused ? 'Hold still…' : 'Fit the nutrition panel or barcode inside the frame'}
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Focus</span>
+          <span>{focused ? 'Sharp' : 'Blurry'}</span>
+        </div>
+        <Progress value={Math.min((stableFrames / STABLE_FRAMES) * 100, 100)} className="h-1" />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Switch id="autoCapture" checked={autoCapture} onCheckedChange={setAutoCapture} />
+          <Label htmlFor="autoCapture" className="text-sm">Auto-capture</Label>
+        </div>
+        {torchSupported && (
+          <Button variant="ghost" size="sm" onClick={toggleTorch} className="flex items-center gap-2">
+            {torchOn ? <FlashlightOff className="w-4 h-4" /> : <Flashlight className="w-4 h-4" />}
+            {torchOn ? 'Light off' : 'Light on'}
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={capture} disabled={isStarting} className="flex items-center gap-2">
+          <Camera className="w-4 h-4" />
+          Capture
+        </Button>
+      </div>
+    </div>
+  );
+};
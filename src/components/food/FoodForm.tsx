@@ -1,166 +1,301 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown } from 'lucide-react';
+import { useDayLogMutations, useFood } from '@/hooks/use-day-log';
+import { AllergenBadges } from './AllergenBadges';
+import { FoodSearchInput } from './FoodSearchInput';
+import { toAllergens } from '@/lib/allergens';
+import { formatBarcode } from '@/lib/barcode';
+import { todayKey } from '@/lib/dates';
+import { FoodEntry, FoodLogInput } from '@/lib/daily-logs';
+import { MEAL_NAMES, mealForTime, MEALS, toMeal } from '@/lib/meals';
+import { isLowConfidence } from '@/lib/label-parser';
+import {
+  entryColumn,
+  foodColumn,
+  fromColumns,
+  MACRONUTRIENT_KEYS,
+  MICRONUTRIENT_KEYS,
+  NUTRIENT_INFO,
+  NUTRIENT_KEYS,
+  NutrientValues,
+  scaleNutrients,
+  toColumns,
+} from '@/lib/nutrients';
+import { CatalogProduct, Food } from '@/lib/products';
+import { formatServingSize, parseServingSize, QuantityUnit, toServings } from '@/lib/servings';
+import { cn } from '@/lib/utils';
 
-import { NutritionData } from '@/types/nutrition';
+import { LabelParseResult, MealType, NutrientKey, ServingInfo, ServingUnit } from '@/types/nutrition';
 
 interface FoodFormProps {
-  initialNutrition?: NutritionData;
+  // Edits this entry instead of adding a new one
+  entry?: FoodEntry;
+  scanResult?: LabelParseResult;
+  // A barcode already in the catalog fills the form from its saved food
+  product?: CatalogProduct;
+  // A barcode seen while scanning that isn't in the catalog yet
+  barcode?: string;
+  // daily_logs.date the food is logged to, or the entry's current day
+  date: string;
+  // The user's zone, recorded on the entry
+  timeZone: string;
   onFoodAdded: () => void;
 }
 
-export const FoodForm = ({ initialNutrition, onFoodAdded }: FoodFormProps) => {
-  const [foodName, setFoodName] = useState('');
-  const [brand, setBrand] = useState('');
-  const [quantity, setQuantity] = useState(1);
-  const [nutrition, setNutrition] = useState<NutritionData>(
-    initialNutrition || { calories: 0, protein: 0, carbs: 0, fat: 0 }
+// Blank means "not known" rather than 0, so unread label values stay empty
+type NutritionInputs = NutrientValues;
+
+const nutritionFields: { key: NutrientKey; label: string; step?: string }[] = [
+  { key: 'calories', label: 'Calories' },
+  { key: 'protein', label: 'Protein (g)', step: '0.1' },
+  { key: 'carbs', label: 'Carbs (g)', step: '0.1' },
+  { key: 'fat', label: 'Fat (g)', step: '0.1' },
+];
+
+const micronutrientFields = MICRONUTRIENT_KEYS.map((key) => ({
+  key,
+  label: `${NUTRIENT_INFO[key].name} (${NUTRIENT_INFO[key].unit})`,
+  step: '0.1',
+}));
+
+const inputsFromScan = (scanResult?: LabelParseResult): NutritionInputs => {
+  const inputs: NutritionInputs = {};
+  for (const [key, nutrient] of Object.entries(scanResult?.nutrients ?? {})) {
+    inputs[key as NutrientKey] = nutrient.value;
+  }
+  return inputs;
+};
+
+const lessThanFromScan = (scanResult?: LabelParseResult): NutrientKey[] =>
+  NUTRIENT_KEYS.filter((key) => scanResult?.nutrients[key]?.lessThan);
+
+const servingFromScan = (scanResult?: LabelParseResult): ServingInfo => {
+  if (!scanResult?.serving) return {};
+  const { matches, ...serving } = scanResult.serving;
+  return serving;
+};
+
+const inputsFromFood = (food: Food): NutritionInputs => fromColumns(food, foodColumn);
+
+const lessThanFromFood = (food: Food): NutrientKey[] =>
+  NUTRIENT_KEYS.filter((key) => food.less_than.includes(key));
+
+const servingFromFood = (food: Food): ServingInfo => ({
+  ...parseServingSize(food.serving_size ?? ''),
+  servingsPerContainer: food.servings_per_container ?? undefined,
+});
+
+// Entries store amounts for the quantity eaten; the form works per serving
+const inputsFromEntry = (entry: FoodEntry): NutritionInputs =>
+  scaleNutrients(fromColumns(entry, entryColumn), entry.quantity > 0 ? 1 / entry.quantity : 1);
+
+const lessThanFromEntry = (entry: FoodEntry): NutrientKey[] =>
+  NUTRIENT_KEYS.filter((key) => entry.less_than.includes(key));
+
+const parseOptionalNumber = (value: string) => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export const FoodForm = ({ entry, scanResult, product, barcode, date, timeZone, onFoodAdded }: FoodFormProps) => {
+  const [foodName, setFoodName] = useState(entry?.food_name ?? product?.food.name ?? '');
+  const [brand, setBrand] = useState(entry?.food_brand ?? product?.food.brand ?? '');
+  const [quantity, setQuantity] = useState(entry?.quantity ?? 1);
+  const [quantityUnit, setQuantityUnit] = useState<QuantityUnit>('serving');
+  const [meal, setMeal] = useState<MealType>(() => (entry ? toMeal(entry.meal) : mealForTime(new Date(), timeZone)));
+  const [logDate, setLogDate] = useState(date);
+  const [serving, setServing] = useState<ServingInfo>(() =>
+    entry ? {} : product ? servingFromFood(product.food) : servingFromScan(scanResult)
   );
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const { toast } = useToast();
+  const [nutrition, setNutrition] = useState<NutritionInputs>(() =>
+    entry ? inputsFromEntry(entry) : product ? inputsFromFood(product.food) : inputsFromScan(scanResult)
+  );
+  // Values the label only gave as an upper bound ("<1g")
+  const [lessThan, setLessThan] = useState<NutrientKey[]>(() =>
+    entry ? lessThanFromEntry(entry) : product ? lessThanFromFood(product.food) : lessThanFromScan(scanResult)
+  );
+  const [showMicronutrients, setShowMicronutrients] = useState(() =>
+    MICRONUTRIENT_KEYS.some((key) => nutrition[key] !== undefined)
+  );
+  // Picked from the library search; takes over from the scan or barcode
+  const [selectedFood, setSelectedFood] = useState<Food | null>(null);
+  const libraryFood = selectedFood ?? product?.food;
+  const ingredients = libraryFood ? libraryFood.ingredients ?? [] : scanResult?.ingredients?.items ?? [];
+  const allergens = libraryFood
+    ? toAllergens(libraryFood.allergens)
+    : entry ? toAllergens(entry.allergens) : scanResult?.ingredients?.allergens ?? [];
+  const { add: addEntry, update: updateEntry } = useDayLogMutations();
+  const { data: linkedFood } = useFood(entry?.food_id);
+  // The linked food is applied once, when it first loads; a refetch, or a
+  // load that lands after the user started typing, mustn't wipe their edits
+  const linkedFoodApplied = useRef(false);
+  const edited = useRef(false);
+
+  // An edited entry rescales from its saved food, when it has one
+  useEffect(() => {
+    if (!linkedFood || linkedFoodApplied.current) return;
+    linkedFoodApplied.current = true;
+    // Another food picked from the search in the meantime wins
+    setSelectedFood((current) => current ?? linkedFood);
+    if (edited.current) return;
+    setServing(servingFromFood(linkedFood));
+    setNutrition(inputsFromFood(linkedFood));
+    setLessThan(lessThanFromFood(linkedFood));
+  }, [linkedFood]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // Macros are per serving, so whatever the user logs is converted to servings
+  const servings = toServings(quantity, quantityUnit, serving);
+  const servingUnit = serving.unit ?? 'g';
+
+  const updateNutrient = (key: NutrientKey, value: string) => {
+    edited.current = true;
+    setNutrition(prev => ({ ...prev, [key]: parseOptionalNumber(value) }));
+    // A typed-in number is exact
+    setLessThan(prev => prev.filter(k => k !== key));
+  };
+
+  const updateServing = (changes: ServingInfo) => {
+    edited.current = true;
+    setServing(prev => ({ ...prev, ...changes }));
+  };
+
+  const selectFood = (food: Food) => {
+    const inputs = inputsFromFood(food);
+    edited.current = true;
+    setSelectedFood(food);
+    setFoodName(food.name);
+    setBrand(food.brand ?? '');
+    setServing(servingFromFood(food));
+    setNutrition(inputs);
+    setLessThan(lessThanFromFood(food));
+    setShowMicronutrients(MICRONUTRIENT_KEYS.some((key) => inputs[key] !== undefined));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    setIsSubmitting(true);
-
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        toast({
-          title: "Error",
-          description: "Please sign in to add foods",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Calculate adjusted nutrition based on quantity
-      const adjustedNutrition = {
-        calories: nutrition.calories * quantity,
-        protein: nutrition.protein * quantity,
-        carbs: nutrition.carbs * quantity,
-        fat: nutrition.fat * quantity,
-      };
-
-      // Get or create today's daily log
-      const today = new Date().toISOString().split('T')[0];
-      let { data: dailyLog, error: logError } = await supabase
-        .from('daily_logs')
-        .select('*')
-        .eq('user_id', session.user.id)
-        .eq('date', today)
-        .single();
-
-      if (logError && logError.code === 'PGRST116') {
-        // No log exists for today, create one
-        const { data: newLog, error: createError } = await supabase
-          .from('daily_logs')
-          .insert({
-            user_id: session.user.id,
-            date: today,
-            total_calories: 0,
-            total_protein: 0,
-            total_carbs: 0,
-            total_fat: 0,
-          })
-          .select()
-          .single();
-
-        if (createError) throw createError;
-        dailyLog = newLog;
-      } else if (logError) {
-        throw logError;
-      }
-
-      // Add food entry
-      const { error: entryError } = await supabase
-        .from('food_entries')
-        .insert({
-          user_id: session.user.id,
-          daily_log_id: dailyLog.id,
-          food_name: foodName,
-          food_brand: brand || null,
-          quantity,
-          calories: adjustedNutrition.calories,
-          protein: adjustedNutrition.protein,
-          carbs: adjustedNutrition.carbs,
-          fat: adjustedNutrition.fat,
-        });
-
-      if (entryError) throw entryError;
-
-      // Update daily log totals
-      const { error: updateError } = await supabase
-        .from('daily_logs')
-        .update({
-          total_calories: dailyLog.total_calories + adjustedNutrition.calories,
-          total_protein: dailyLog.total_protein + adjustedNutrition.protein,
-          total_carbs: dailyLog.total_carbs + adjustedNutrition.carbs,
-          total_fat: dailyLog.total_fat + adjustedNutrition.fat,
-        })
-        .eq('id', dailyLog.id);
-
-      if (updateError) throw updateError;
-
-      // Save to foods database for future use
-      if (foodName.trim()) {
-        await supabase
-          .from('foods')
-          .upsert({
-            user_id: session.user.id,
-            name: foodName,
-            brand: brand || null,
-            calories_per_serving: nutrition.calories,
-            protein_per_serving: nutrition.protein,
-            carbs_per_serving: nutrition.carbs,
-            fat_per_serving: nutrition.fat,
-          }, {
-            onConflict: 'user_id,name,brand'
-          });
-      }
-
-      toast({
-        title: "Success!",
-        description: `Added ${foodName} to your daily log`,
-      });
-
-      // Reset form
-      setFoodName('');
-      setBrand('');
-      setQuantity(1);
-      if (!initialNutrition) {
-        setNutrition({ calories: 0, protein: 0, carbs: 0, fat: 0 });
-      }
-      
+
+    // Macros are required columns, so unknown ones count as 0; unknown
+    // micronutrients stay null rather than claiming the food has none
+    const perServing: NutritionInputs = { ...nutrition };
+    for (const key of MACRONUTRIENT_KEYS) perServing[key] ??= 0;
+
+    // Calculate adjusted nutrition based on quantity
+    const adjustedNutrition = scaleNutrients(perServing, servings);
+
+    // The picked food (or the barcode's saved one) is the food being logged
+    // as long as it keeps its name; otherwise this is a new food
+    const pickedFood = libraryFood && foodName === libraryFood.name ? libraryFood : undefined;
+    // A recipe's values come from its ingredients, not from this form, so an
+    // unchanged recipe is linked as it is rather than saved over
+    const loggingRecipe = pickedFood?.is_recipe;
+
+    const input: FoodLogInput = {
+      date: logDate,
+      entry: {
+        food_id: loggingRecipe ? pickedFood.id : null,
+        food_name: foodName,
+        food_brand: brand || null,
+        quantity: servings,
+        meal,
+        // An edited entry keeps the zone it was first logged in
+        time_zone: entry?.time_zone ?? timeZone,
+        // Required column; the spread below fills in the rest
+        calories: adjustedNutrition.calories,
+        ...toColumns(adjustedNutrition, entryColumn),
+        allergens,
+        less_than: lessThan,
+      },
+      // Saved to the library for future use, and so the entry can point at it
+      food: loggingRecipe || !foodName.trim() ? undefined : {
+        id: pickedFood?.id,
+        name: foodName,
+        brand: brand || null,
+        calories_per_serving: perServing.calories,
+        ...toColumns(perServing, foodColumn),
+        serving_size: formatServingSize(serving),
+        servings_per_container: serving.servingsPerContainer ?? null,
+        ingredients: ingredients.length > 0 ? ingredients : null,
+        allergens,
+        less_than: lessThan,
+      },
+      barcode: product?.barcode ?? barcode,
+    };
+
+    // The day shows the change straight away; the mutations report how the
+    // save went, and undo it if it fails
+    if (entry) {
+      updateEntry(entry, date, input);
       onFoodAdded();
-    } catch (error) {
-      console.error('Error adding food:', error);
-      toast({
-        title: "Error",
-        description: "Failed to add food. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsSubmitting(false);
+      return;
+    }
+
+    addEntry(input);
+
+    // Reset form
+    setFoodName('');
+    setBrand('');
+    setQuantity(1);
+    setQuantityUnit('serving');
+    setSelectedFood(null);
+    if (!scanResult && !product) {
+      setNutrition({});
+      setServing({});
+      setLessThan([]);
     }
+
+    onFoodAdded();
+  };
+
+  const renderNutrientField = ({ key, label, step }: { key: NutrientKey; label: string; step?: string }) => {
+    const scanned = scanResult?.nutrients[key];
+    const uncertain = isLowConfidence(scanned);
+
+    return (
+      <div key={key} className="space-y-2">
+        <Label htmlFor={key}>{label}</Label>
+        <Input
+          id={key}
+          type="number"
+          step={step}
+          min="0"
+          value={nutrition[key] ?? ''}
+          onChange={(e) => updateNutrient(key, e.target.value)}
+          className={cn(uncertain && 'border-amber-500 focus-visible:ring-amber-500')}
+        />
+        {uncertain && (
+          <p className="text-xs text-amber-600">Check this value against the label</p>
+        )}
+        {lessThan.includes(key) && (
+          <p className="text-xs text-muted-foreground">Label says less than {nutrition[key]}</p>
+        )}
+        {scanned?.percentDailyValue !== undefined && nutrition[key] === scanned.value && (
+          <p className="text-xs text-muted-foreground">
+            Worked out from {scanned.percentDailyValue}% Daily Value
+          </p>
+        )}
+      </div>
+    );
   };
 
   return (
     <Card className="p-6 bg-gradient-card shadow-soft">
-      <h3 className="text-lg font-semibold mb-4">Add Food Details</h3>
+      <h3 className="text-lg font-semibold mb-4">{entry ? 'Edit Entry' : 'Add Food Details'}</h3>
       
       <form onSubmit={handleSubmit} className="space-y-4">
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-2">
             <Label htmlFor="foodName">Food Name *</Label>
-            <Input
+            <FoodSearchInput
               id="foodName"
               value={foodName}
-              onChange={(e) => setFoodName(e.target.value)}
+              onChange={setFoodName}
+              onSelect={selectFood}
               placeholder="e.g., Greek Yogurt"
               required
             />
@@ -176,66 +311,161 @@ export const FoodForm = ({ initialNutrition, onFoodAdded }: FoodFormProps) => {
           </div>
         </div>
 
-        <div className="space-y-2">
-          <Label htmlFor="quantity">Serving Quantity</Label>
-          <Input
-            id="quantity"
-            type="number"
-            step="0.1"
-            min="0.1"
-            value={quantity}
-            onChange={(e) => setQuantity(parseFloat(e.target.value) || 1)}
-          />
-        </div>
-
-        <div className="grid grid-cols-2 gap-4">
+        <div className="grid grid-cols-3 gap-4">
           <div className="space-y-2">
-            <Label htmlFor="calories">Calories</Label>
+            <Label htmlFor="servingSize">Serving Size</Label>
             <Input
-              id="calories"
-              type="number"
-              min="0"
-              value={nutrition.calories}
-              onChange={(e) => setNutrition(prev => ({ ...prev, calories: parseFloat(e.target.value) || 0 }))}
+              id="servingSize"
+              value={serving.householdMeasure ?? ''}
+              onChange={(e) => updateServing({ householdMeasure: e.target.value || undefined })}
+              placeholder="e.g., 2/3 cup"
             />
           </div>
           <div className="space-y-2">
-            <Label htmlFor="protein">Protein (g)</Label>
-            <Input
-              id="protein"
-              type="number"
-              step="0.1"
-              min="0"
-              value={nutrition.protein}
-              onChange={(e) => setNutrition(prev => ({ ...prev, protein: parseFloat(e.target.value) || 0 }))}
-            />
+            <Label htmlFor="servingAmount">Serving Weight</Label>
+            <div className="flex gap-2">
+              <Input
+                id="servingAmount"
+                type="number"
+                step="0.1"
+                min="0"
+                value={serving.amount ?? ''}
+                onChange={(e) => updateServing({ amount: parseOptionalNumber(e.target.value) })}
+              />
+              <Select
+                value={servingUnit}
+                onValueChange={(unit) => updateServing({ unit: unit as ServingUnit })}
+              >
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="g">g</SelectItem>
+                  <SelectItem value="ml">ml</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           <div className="space-y-2">
-            <Label htmlFor="carbs">Carbs (g)</Label>
+            <Label htmlFor="servingsPerContainer">Servings / Container</Label>
             <Input
-              id="carbs"
+              id="servingsPerContainer"
               type="number"
               step="0.1"
               min="0"
-              value={nutrition.carbs}
-              onChange={(e) => setNutrition(prev => ({ ...prev, carbs: parseFloat(e.target.value) || 0 }))}
+              value={serving.servingsPerContainer ?? ''}
+              onChange={(e) => updateServing({ servingsPerContainer: parseOptionalNumber(e.target.value) })}
             />
           </div>
+        </div>
+
+        <div className={cn('grid gap-4', entry && 'grid-cols-2')}>
           <div className="space-y-2">
-            <Label htmlFor="fat">Fat (g)</Label>
+            <Label htmlFor="meal">Meal</Label>
+            <Select value={meal} onValueChange={(value) => setMeal(value as MealType)}>
+              <SelectTrigger id="meal">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MEALS.map((value) => (
+                  <SelectItem key={value} value={value}>{MEAL_NAMES[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {entry && (
+            <div className="space-y-2">
+              <Label htmlFor="logDate">Day</Label>
+              <Input
+                id="logDate"
+                type="date"
+                value={logDate}
+                max={todayKey(timeZone)}
+                onChange={(e) => e.target.value && setLogDate(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="quantity">Amount Eaten</Label>
+          <div className="flex gap-2">
             <Input
-              id="fat"
+              id="quantity"
               type="number"
               step="0.1"
-              min="0"
-              value={nutrition.fat}
-              onChange={(e) => setNutrition(prev => ({ ...prev, fat: parseFloat(e.target.value) || 0 }))}
+              min="0.1"
+              value={quantity}
+              onChange={(e) => setQuantity(parseFloat(e.target.value) || 1)}
             />
+            <Select value={quantityUnit} onValueChange={(unit) => setQuantityUnit(unit as QuantityUnit)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="serving">servings</SelectItem>
+                <SelectItem value="amount" disabled={!serving.amount}>{servingUnit}</SelectItem>
+                <SelectItem value="container" disabled={!serving.servingsPerContainer}>containers</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
+          {quantityUnit !== 'serving' && (
+            <p className="text-xs text-muted-foreground">
+              {servings === null
+                ? 'Fill in the serving details above to convert this amount'
+                : `= ${Math.round(servings * 100) / 100} servings`}
+            </p>
+          )}
         </div>
 
-        <Button type="submit" className="w-full" disabled={isSubmitting || !foodName.trim()}>
-          {isSubmitting ? "Adding..." : "Add to Daily Log"}
+        {(allergens.length > 0 || ingredients.length > 0) && (
+          <div className="space-y-2 p-3 rounded-lg bg-muted">
+            {allergens.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-amber-700">Contains allergens:</span>
+                <AllergenBadges allergens={allergens} />
+              </div>
+            )}
+            {ingredients.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium">Ingredients:</span> {ingredients.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {product && (
+          <p className="text-xs text-muted-foreground">
+            Filled in from your saved product {formatBarcode(product.barcode)}.
+          </p>
+        )}
+
+        {scanResult && (
+          <p className="text-xs text-muted-foreground">
+            Values read from the label are pre-filled{scanResult.format === 'eu' && scanResult.serving?.amount
+              ? ` (per ${scanResult.serving.amount}${scanResult.serving.unit ?? 'g'})`
+              : ''}. Blank fields couldn't be read, and highlighted ones are worth double-checking.
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          {nutritionFields.map(renderNutrientField)}
+        </div>
+
+        <Collapsible open={showMicronutrients} onOpenChange={setShowMicronutrients}>
+          <CollapsibleTrigger asChild>
+            <Button type="button" variant="ghost" size="sm" className="w-full justify-between px-0">
+              More nutrients
+              <ChevronDown className={cn('w-4 h-4 transition-transform', showMicronutrients && 'rotate-180')} />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="grid grid-cols-2 gap-4 pt-2">
+            {micronutrientFields.map(renderNutrientField)}
+          </CollapsibleContent>
+        </Collapsible>
+
+        <Button type="submit" className="w-full" disabled={!foodName.trim() || servings === null}>
+          {entry ? "Save Changes" : "Add to Daily Log"}
         </Button>
       </form>
     </Card>
@@ -1,64 +1,80 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Camera, Upload, Loader2 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Barcode, Camera, Upload, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import Tesseract from 'tesseract.js';
+import { CameraCapture } from './CameraCapture';
+import { ScanPreview } from './ScanPreview';
+import { ScanReview } from './ScanReview';
 
-import { NutritionData } from '@/types/nutrition';
+import { LabelFormat, LabelLanguage, LabelParseResult } from '@/types/nutrition';
+import { decodeBarcode, formatBarcode } from '@/lib/barcode';
+import { CropRect, loadImage } from '@/lib/image-preprocessing';
+import { isCameraSupported } from '@/lib/frame-analysis';
+import { CatalogProduct, findProduct } from '@/lib/products';
+import {
+  detectLanguage,
+  hasNutritionData,
+  LANGUAGES,
+  ocrLanguages,
+  parseNutritionLabel,
+} from '@/lib/label-parser';
+import {
+  locateWords,
+  OcrCancelledError,
+  OcrJob,
+  OcrProgress,
+  OcrStage,
+  OcrWord,
+  recognizeImage,
+  warmUpOcr,
+} from '@/lib/ocr';
+
+const STAGE_LABELS: Record<OcrStage, string> = {
+  loading: 'Loading OCR engine',
+  initializing: 'Initializing',
+  recognizing: 'Reading label',
+};
 
 interface FoodScannerProps {
-  onNutritionExtracted: (data: NutritionData) => void;
+  // barcode is set when the package's barcode was seen but isn't in the catalog yet
+  onNutritionExtracted: (result: LabelParseResult, barcode?: string) => void;
+  onProductFound: (product: CatalogProduct) => void;
 }
 
-export const FoodScanner = ({ onNutritionExtracted }: FoodScannerProps) => {
+export const FoodScanner = ({ onNutritionExtracted, onProductFound }: FoodScannerProps) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [extractedText, setExtractedText] = useState('');
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [initialCrop, setInitialCrop] = useState<CropRect | undefined>(undefined);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [barcode, setBarcode] = useState<string | null>(null);
+  const [labelFormat, setLabelFormat] = useState<LabelFormat | 'auto'>('auto');
+  const [labelLanguage, setLabelLanguage] = useState<LabelLanguage | 'auto'>('auto');
+  const [progress, setProgress] = useState<OcrProgress | null>(null);
+  const [review, setReview] = useState<{
+    image: File | HTMLCanvasElement;
+    result: LabelParseResult;
+    words: OcrWord[];
+  } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const jobRef = useRef<OcrJob | null>(null);
   const { toast } = useToast();
 
-  const extractNutritionFromText = (text: string): NutritionData => {
-    // Clean and normalize the text for better parsing
-    const cleanText = text.replace(/[^\w\s\.\-:\/\%]/g, ' ').replace(/\s+/g, ' ').toLowerCase();
-    
-    const nutrition: NutritionData = { calories: 0, protein: 0, carbs: 0, fat: 0 };
-    
-    // Enhanced patterns to match nutrition values
-    const patterns = {
-      calories: /(?:calories|energy|kcal)[\s:]*(\d+(?:\.\d+)?)/i,
-      protein: /protein[\s:]*(\d+(?:\.\d+)?)\s*g/i,
-      carbs: /(?:total\s*carbohydrate|carbohydrate|carbs)[\s:]*(\d+(?:\.\d+)?)\s*g/i,
-      fat: /(?:total\s*fat|total fat|fat)[\s:]*(\d+(?:\.\d+)?)\s*g/i,
-      saturatedFat: /(?:saturated\s*fat|sat\s*fat)[\s:]*(\d+(?:\.\d+)?)\s*g/i,
-      transFat: /(?:trans\s*fat|trans fat)[\s:]*(\d+(?:\.\d+)?)\s*g/i,
-      cholesterol: /cholesterol[\s:]*(\d+(?:\.\d+)?)\s*mg/i,
-      sodium: /sodium[\s:]*(\d+(?:\.\d+)?)\s*mg/i,
-      fiber: /(?:dietary\s*fiber|fiber)[\s:]*(\d+(?:\.\d+)?)\s*g/i,
-      sugar: /(?:total\s*sugars|sugars)[\s:]*(\d+(?:\.\d+)?)\s*g/i,
-      addedSugar: /(?:added\s*sugars|includes\s*\d+g\s*added\s*sugars)[\s:]*(\d+(?:\.\d+)?)\s*g/i,
-      vitaminD: /(?:vitamin\s*d|vit\s*d)[\s:]*(\d+(?:\.\d+)?)\s*(?:mcg|µg)/i,
-      calcium: /calcium[\s:]*(\d+(?:\.\d+)?)\s*mg/i,
-      iron: /iron[\s:]*(\d+(?:\.\d+)?)\s*mg/i,
-      potassium: /potassium[\s:]*(\d+(?:\.\d+)?)\s*mg/i
-    };
-
-    // Extract each nutrient
-    for (const [nutrient, pattern] of Object.entries(patterns)) {
-      const match = cleanText.match(pattern);
-      if (match && match[1]) {
-        const value = parseFloat(match[1]);
-        if (!isNaN(value) && value >= 0) {
-          nutrition[nutrient as keyof NutritionData] = value;
-        }
-      }
-    }
-
-    return nutrition;
-  };
+  // Get the English worker ready while the user lines up the photo, and stop
+  // any scan still running when the scanner closes
+  useEffect(() => {
+    warmUpOcr(ocrLanguages('en'));
+    return () => jobRef.current?.cancel();
+  }, []);
 
-  const processImage = async (file: File) => {
+  const processImage = async (image: File | HTMLCanvasElement) => {
     setIsProcessing(true);
     
     try {
@@ -67,23 +83,42 @@ export const FoodScanner = ({ onNutritionExtracted }: FoodScannerProps) => {
         description: "Extracting text from nutrition label",
       });
 
-      const result = await Tesseract.recognize(file, 'eng', {
-        logger: (m) => console.log(m)
-      });
+      const recognize = (language: LabelLanguage) => {
+        jobRef.current = recognizeImage(image, ocrLanguages(language), setProgress);
+        return jobRef.current.result;
+      };
+
+      // Auto mode reads the label in English first, then re-reads it with the
+      // right language data if the wording turns out to be foreign
+      let language = labelLanguage === 'auto' ? 'en' : labelLanguage;
+      let result = await recognize(language);
+      if (labelLanguage === 'auto') {
+        const detected = detectLanguage(result.data.text);
+        if (detected !== language) {
+          language = detected;
+          result = await recognize(language);
+        }
+      }
 
       const text = result.data.text;
       setExtractedText(text);
       
-      const nutrition = extractNutritionFromText(text);
+      const words = locateWords(result.data);
+      const parsed = parseNutritionLabel(text, { format: labelFormat, language, words });
       
-      // Check if any nutrition data was found
-      const hasNutritionData = Object.values(nutrition).some(value => value > 0);
-      
-      if (hasNutritionData) {
-        onNutritionExtracted(nutrition);
+      if (hasNutritionData(parsed)) {
+        setReview({ image, result: parsed, words });
         toast({
           title: "Success!",
-          description: "Nutrition information extracted from label",
+          description: "Check the highlighted values against the photo",
+        });
+      } else if (words.length > 0) {
+        // Nothing matched, but the user can still pick the numbers by hand
+        setReview({ image, result: parsed, words });
+        toast({
+          title: "No nutrition data found",
+          description: "Tap the numbers on the photo to assign them",
+          variant: "destructive",
         });
       } else {
         toast({
@@ -93,6 +128,12 @@ export const FoodScanner = ({ onNutritionExtracted }: FoodScannerProps) => {
         });
       }
     } catch (error) {
+      if (error instanceof OcrCancelledError) {
+        toast({
+          title: "Scan cancelled",
+        });
+        return;
+      }
       console.error('OCR Error:', error);
       toast({
         title: "Processing failed",
@@ -100,62 +141,226 @@ export const FoodScanner = ({ onNutritionExtracted }: FoodScannerProps) => {
         variant: "destructive",
       });
     } finally {
+      jobRef.current = null;
+      setProgress(null);
       setIsProcessing(false);
     }
   };
 
+  const cancelScan = () => {
+    jobRef.current?.cancel();
+  };
+
+  // A saved product skips OCR entirely; a new barcode is kept so the label
+  // read next can be saved under it
+  const handleBarcode = useCallback(async (code: string) => {
+    try {
+      const product = await findProduct(code);
+      if (product) {
+        setCameraOpen(false);
+        setSelectedFile(null);
+        toast({
+          title: "Product found",
+          description: product.food.brand ? `${product.food.name} (${product.food.brand})` : product.food.name,
+        });
+        onProductFound(product);
+        return;
+      }
+    } catch (error) {
+      console.error('Error looking up barcode:', error);
+    }
+
+    setBarcode(code);
+    toast({
+      title: "New product",
+      description: "Scan the nutrition label and it will be saved under this barcode",
+    });
+  }, [onProductFound, toast]);
+
+  const checkForBarcode = async (file: File) => {
+    const url = URL.createObjectURL(file);
+    try {
+      const image = await loadImage(url);
+      const code = await decodeBarcode(image, image.naturalWidth, image.naturalHeight);
+      if (code && code !== barcode) await handleBarcode(code);
+    } catch (error) {
+      console.error('Barcode error:', error);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      processImage(file);
+      setExtractedText('');
+      setInitialCrop(undefined);
+      setSelectedFile(file);
+      checkForBarcode(file);
     }
+    // Allow picking the same file again after "Choose Another"
+    event.target.value = '';
   };
 
   const triggerFileSelect = () => {
     fileInputRef.current?.click();
   };
 
+  // Without a usable camera stream, let the OS camera app take the photo
+  const openCamera = () => {
+    if (isCameraSupported()) {
+      setCameraOpen(true);
+    } else {
+      photoInputRef.current?.click();
+    }
+  };
+
+  const handleCameraUnavailable = useCallback(() => {
+    setCameraOpen(false);
+    toast({
+      title: "Camera unavailable",
+      description: "Take the photo with your camera app instead",
+      variant: "destructive",
+    });
+    photoInputRef.current?.click();
+  }, [toast]);
+
+  const handleCapture = (file: File, crop: CropRect) => {
+    setCameraOpen(false);
+    setExtractedText('');
+    setInitialCrop(crop);
+    setSelectedFile(file);
+  };
+
   return (
     <Card className="p-6 bg-gradient-card shadow-soft">
       <div className="text-center space-y-4">
         <h3 className="text-lg font-semibold">Scan Nutrition Label</h3>
         <p className="text-sm text-muted-foreground">
-          Take a photo or upload an image of the nutrition facts panel
+          Take a photo or upload an image of the nutrition facts panel or the barcode
         </p>
-        
-        <div className="grid grid-cols-2 gap-4">
-          <Button
-            onClick={triggerFileSelect}
-            disabled={isProcessing}
-            className="flex items-center gap-2"
-            variant="outline"
-          >
-            {isProcessing ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              <Upload className="w-4 h-4" />
-            )}
-            Upload Image
-          </Button>
-          
-          <Button
-            onClick={triggerFileSelect}
-            disabled={isProcessing}
-            className="flex items-center gap-2"
-          >
-            {isProcessing ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              <Camera className="w-4 h-4" />
-            )}
-            Take Photo
-          </Button>
+
+        <div className="grid grid-cols-2 gap-4 text-left">
+          <div className="space-y-2">
+            <Label htmlFor="labelFormat" className="text-sm">Label type</Label>
+            <Select value={labelFormat} onValueChange={(value) => setLabelFormat(value as LabelFormat | 'auto')}>
+              <SelectTrigger id="labelFormat">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect automatically</SelectItem>
+                <SelectItem value="us">US Nutrition Facts</SelectItem>
+                <SelectItem value="eu">EU / UK (per 100 g)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="labelLanguage" className="text-sm">Label language</Label>
+            <Select value={labelLanguage} onValueChange={(value) => setLabelLanguage(value as LabelLanguage | 'auto')}>
+              <SelectTrigger id="labelLanguage">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect automatically</SelectItem>
+                {Object.entries(LANGUAGES).map(([code, { name }]) => (
+                  <SelectItem key={code} value={code}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
+        {barcode && (
+          <div className="flex items-center justify-center gap-2">
+            <Badge variant="secondary" className="flex items-center gap-1">
+              <Barcode className="w-3 h-3" />
+              {formatBarcode(barcode)}
+            </Badge>
+            <Button variant="ghost" size="sm" onClick={() => setBarcode(null)}>
+              Clear
+            </Button>
+          </div>
+        )}
+
+        {review ? (
+          <ScanReview
+            image={review.image}
+            result={review.result}
+            words={review.words}
+            onConfirm={(result) => onNutritionExtracted(result, barcode ?? undefined)}
+            onBack={() => setReview(null)}
+          />
+        ) : cameraOpen ? (
+          <CameraCapture
+            onCapture={handleCapture}
+            onCancel={() => setCameraOpen(false)}
+            onUnavailable={handleCameraUnavailable}
+            onBarcode={handleBarcode}
+          />
+        ) : selectedFile ? (
+          <ScanPreview
+            file={selectedFile}
+            initialCrop={initialCrop}
+            isProcessing={isProcessing}
+            onConfirm={processImage}
+            onCancel={() => setSelectedFile(null)}
+          />
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <Button
+              onClick={triggerFileSelect}
+              disabled={isProcessing}
+              className="flex items-center gap-2"
+              variant="outline"
+            >
+              {isProcessing ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4" />
+              )}
+              Upload Image
+            </Button>
+
+            <Button
+              onClick={openCamera}
+              disabled={isProcessing}
+              className="flex items-center gap-2"
+            >
+              {isProcessing ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Camera className="w-4 h-4" />
+              )}
+              Take Photo
+            </Button>
+          </div>
+        )}
+
+        {isProcessing && (
+          <div className="space-y-2 text-left">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {progress ? STAGE_LABELS[progress.stage] : 'Waiting for OCR engine'}...
+              </span>
+              <Button variant="ghost" size="sm" onClick={cancelScan}>
+                Cancel scan
+              </Button>
+            </div>
+            <Progress value={(progress?.progress ?? 0) * 100} className="h-2" />
+          </div>
+        )}
+
         <input
           ref={fileInputRef}
           type="file"
           accept="image/*"
+          onChange={handleFileSelect}
+          className="hidden"
+        />
+        <input
+          ref={photoInputRef}
+          type="file"
+          accept="image/*"
           capture="environment"
           onChange={handleFileSelect}
           className="hidden"
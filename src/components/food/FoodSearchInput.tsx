@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { FoodMatch, searchFoods } from '@/lib/food-library';
+import { Food } from '@/lib/products';
+import { cn } from '@/lib/utils';
+
+interface FoodSearchInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  // A food picked from the user's library
+  onSelect: (food: Food) => void;
+  placeholder?: string;
+  required?: boolean;
+}
+
+const SEARCH_DELAY_MS = 200;
+
+export const FoodSearchInput = ({ id, value, onChange, onSelect, placeholder, required }: FoodSearchInputProps) => {
+  const [matches, setMatches] = useState<FoodMatch[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchFoods(value)
+        .then((results) => {
+          if (cancelled) return;
+          setMatches(results);
+          setHighlighted(0);
+        })
+        .catch((error) => console.error('Food search error:', error));
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value, open]);
+
+  const choose = (match: FoodMatch) => {
+    onSelect(match.food);
+    setOpen(false);
+    setMatches([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || matches.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((index) => (index + 1) % matches.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((index) => (index - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(matches[highlighted]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && matches.length > 0;
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setOpen(false)}
+        placeholder={placeholder}
+        required={required}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={`${id}-results`}
+      />
+      {showList && (
+        <ul
+          id={`${id}-results`}
+          role="listbox"
+          className="absolute z-50 mt-1 w-full max-h-64 overflow-auto rounded-md border bg-popover p-1 shadow-md"
+        >
+          {matches.map((match, index) => (
+            <li
+              key={match.food.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // Keeps focus in the input so blur doesn't close the list before the click
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(match)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                'cursor-pointer rounded-sm px-2 py-1.5 text-sm',
+                index === highlighted && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <div className="font-medium">
+                {match.food.name}
+                {match.food.brand && <span className="text-muted-foreground font-normal"> ({match.food.brand})</span>}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {Math.round(match.food.calories_per_serving)} cal per {match.food.serving_size || 'serving'}
+                {match.uses > 0 && ` • logged ${match.uses}×`}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Crop, Loader2, ScanText } from 'lucide-react';
+import { CropRect, loadImage, preprocessImage } from '@/lib/image-preprocessing';
+
+interface ScanPreviewProps {
+  file: File;
+  // Starting crop in image pixels, e.g. the camera's framing guide
+  initialCrop?: CropRect;
+  isProcessing: boolean;
+  onConfirm: (image: File | HTMLCanvasElement) => void;
+  onCancel: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const ScanPreview = ({ file, initialCrop, isProcessing, onConfirm, onCancel }: ScanPreviewProps) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [imageUrl, setImageUrl] = useState('');
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [enhance, setEnhance] = useState(true);
+  const [processed, setProcessed] = useState<{ canvas: HTMLCanvasElement; url: string; angle: number } | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    setCrop(initialCrop ?? null);
+    loadImage(url).then(setImage).catch((error) => console.error('Error loading image:', error));
+    return () => URL.revokeObjectURL(url);
+  }, [file, initialCrop]);
+
+  // Re-run the pipeline once the user has finished dragging a crop
+  useEffect(() => {
+    if (!image || dragStart) return;
+
+    setIsPreparing(true);
+    // Let the spinner paint before the canvas work blocks the main thread
+    const timer = setTimeout(() => {
+      try {
+        const result = preprocessImage(image, {
+          crop: crop ?? undefined,
+          grayscale: enhance,
+          threshold: enhance,
+          deskew: enhance,
+          normalizeContrast: enhance,
+        });
+        setProcessed({ ...result, url: result.canvas.toDataURL('image/jpeg', 0.8) });
+      } catch (error) {
+        console.error('Error preprocessing image:', error);
+        setProcessed(null);
+      } finally {
+        setIsPreparing(false);
+      }
+    }, 0);
+
+    return () => clearTimeout(timer);
+  }, [image, crop, enhance, dragStart]);
+
+  // Pointer position in natural image pixels
+  const toImagePoint = (event: React.PointerEvent): Point | null => {
+    const element = imageRef.current;
+    if (!element || !image) return null;
+
+    const rect = element.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * image.width;
+    const y = ((event.clientY - rect.top) / rect.height) * image.height;
+    return {
+      x: Math.min(Math.max(x, 0), image.width),
+      y: Math.min(Math.max(y, 0), image.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    const point = toImagePoint(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragStart(point);
+    setCrop({ ...point, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragStart) return;
+    const point = toImagePoint(event);
+    if (!point) return;
+    setCrop({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    setDragStart(null);
+    // A tap rather than a drag clears the crop
+    setCrop((current) => (current && current.width > 20 && current.height > 20 ? current : null));
+  };
+
+  const cropStyle = crop && image
+    ? {
+        left: `${(crop.x / image.width) * 100}%`,
+        top: `${(crop.y / image.height) * 100}%`,
+        width: `${(crop.width / image.width) * 100}%`,
+        height: `${(crop.height / image.height) * 100}%`,
+      }
+    : undefined;
+
+  const handleConfirm = () => {
+    if (processed && (enhance || crop)) {
+      onConfirm(processed.canvas);
+    } else {
+      onConfirm(file);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      <Tabs defaultValue="original">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="original">Original</TabsTrigger>
+          <TabsTrigger value="processed">Enhanced</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="original" className="space-y-2">
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <Crop className="w-3 h-3" />
+            Drag across the photo to crop to just the nutrition panel
+          </p>
+          <div className="flex justify-center">
+            <div
+              className="relative inline-block touch-none select-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              {imageUrl && (
+                <img
+                  ref={imageRef}
+                  src={imageUrl}
+                  alt="Selected label"
+                  className="block max-w-full max-h-96 rounded-lg"
+                  draggable={false}
+                />
+              )}
+              {cropStyle && (
+                <div
+                  className="absolute border-2 border-primary bg-primary/10 pointer-events-none"
+                  style={cropStyle}
+                />
+              )}
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="processed" className="space-y-2">
+          {isPreparing || !processed ? (
+            <div className="flex items-center justify-center h-48">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <img
+                src={processed.url}
+                alt="Enhanced label"
+                className="w-full max-h-96 object-contain rounded-lg border"
+              />
+              {processed.angle !== 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Straightened by {Math.abs(processed.angle)}°
+                </p>
+              )}
+            </>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Switch id="enhance" checked={enhance} onCheckedChange={setEnhance} />
+          <Label htmlFor="enhance" className="text-sm">Enhance for reading</Label>
+        </div>
+        {crop && (
+          <Button variant="ghost" size="sm" onClick={() => setCrop(null)}>
+            Reset crop
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Button variant="outline" onClick={onCancel} disabled={isProcessing}>
+          Choose Another
+        </Button>
+        <Button onClick={handleConfirm} disabled={isProcessing || isPreparing} className="flex items-center gap-2">
+          {isProcessing ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <ScanText className="w-4 h-4" />
+          )}
+          Read Label
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,327 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, RotateCcw } from 'lucide-react';
+import { isLowConfidence } from '@/lib/label-parser';
+import { NUTRIENT_INFO, NUTRIENT_KEYS } from '@/lib/nutrients';
+import { OcrWord } from '@/lib/ocr';
+import { cn } from '@/lib/utils';
+
+import {
+  LabelColumn,
+  LabelParseResult,
+  NutrientKey,
+  ParsedNutrient,
+  ParsedNutrition,
+  ParsedServing,
+  TextSpan,
+} from '@/types/nutrition';
+
+interface ScanReviewProps {
+  image: File | HTMLCanvasElement;
+  result: LabelParseResult;
+  words: OcrWord[];
+  onConfirm: (result: LabelParseResult) => void;
+  onBack: () => void;
+}
+
+const overlaps = (a: TextSpan, b: { start: number; end: number }) => a.start < b.end && b.start < a.end;
+
+// The box a value was read from: the last word with digits in its matched text
+// ("Total Fat 8g" -> "8g")
+const valueWordIndex = (nutrient: ParsedNutrient, words: OcrWord[]) => {
+  let found = -1;
+  words.forEach((word, index) => {
+    if (overlaps(nutrient.match, word) && /\d/.test(word.text)) found = index;
+  });
+  return found;
+};
+
+const readNumber = (text: string) => {
+  const match = text.match(/\d+(?:[.,]\d+)?/);
+  return match ? match[0].replace(',', '.') : '';
+};
+
+const columnTitle = ({ basis, serving }: LabelColumn) => {
+  const unit = serving.unit ?? 'g';
+  switch (basis) {
+    case 'per100':
+      return `Per 100 ${unit}`;
+    case 'container':
+      return 'Per container';
+    case 'portion':
+      return serving.amount ? `Per serving (${serving.amount} ${unit})` : 'Per serving';
+  }
+};
+
+export const ScanReview = ({ image, result, words, onConfirm, onBack }: ScanReviewProps) => {
+  const [imageUrl, setImageUrl] = useState('');
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  // Columns the label actually had values in, e.g. per serving and per container
+  const columns = (result.columns ?? []).filter((column) => Object.keys(column.nutrients).length > 0);
+  const [columnIndex, setColumnIndex] = useState(() =>
+    Math.max(0, columns.findIndex((column) => column.nutrients === result.nutrients))
+  );
+  // Each column's values with the user's corrections to it, so switching
+  // columns doesn't throw corrections away
+  const [columnNutrients, setColumnNutrients] = useState<ParsedNutrition[]>(() =>
+    columns.length > 0
+      ? columns.map((column, index) => (index === columnIndex ? result.nutrients : column.nutrients))
+      : [result.nutrients]
+  );
+  const nutrients = columnNutrients[columnIndex];
+  const [selected, setSelected] = useState<number | null>(null);
+  const [assignTo, setAssignTo] = useState<NutrientKey | 'none'>('none');
+  const [value, setValue] = useState('');
+
+  const setNutrients = (update: (prev: ParsedNutrition) => ParsedNutrition) =>
+    setColumnNutrients((all) => all.map((values, index) => (index === columnIndex ? update(values) : values)));
+
+  useEffect(() => {
+    if (image instanceof HTMLCanvasElement) {
+      setImageUrl(image.toDataURL('image/jpeg', 0.85));
+      return;
+    }
+    const url = URL.createObjectURL(image);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const wordOwners = new Map<number, NutrientKey>();
+  for (const [key, nutrient] of Object.entries(nutrients) as [NutrientKey, ParsedNutrient][]) {
+    const index = valueWordIndex(nutrient, words);
+    if (index !== -1) wordOwners.set(index, key);
+  }
+
+  const selectWord = (index: number) => {
+    const owner = wordOwners.get(index);
+    setSelected(index);
+    setAssignTo(owner ?? 'none');
+    setValue(owner ? String(nutrients[owner].value) : readNumber(words[index].text));
+  };
+
+  const applyCorrection = () => {
+    if (selected === null) return;
+    const word = words[selected];
+    const parsed = parseFloat(value);
+
+    setNutrients((prev) => {
+      const next = { ...prev };
+      // A box can only feed one nutrient
+      for (const [key, nutrient] of Object.entries(prev) as [NutrientKey, ParsedNutrient][]) {
+        if (key !== assignTo && valueWordIndex(nutrient, words) === selected) delete next[key];
+      }
+      if (assignTo !== 'none' && !isNaN(parsed)) {
+        next[assignTo] = {
+          value: parsed,
+          unit: NUTRIENT_INFO[assignTo].unit,
+          match: { text: word.text, start: word.start, end: word.end },
+          // Checked by the user against the photo
+          confidence: 1,
+        };
+      }
+      return next;
+    });
+    setSelected(null);
+  };
+
+  const chooseColumn = (index: number) => {
+    setColumnIndex(index);
+    setSelected(null);
+  };
+
+  const confirm = () => {
+    const column = columns[columnIndex];
+    const serving: ParsedServing | undefined = column
+      ? {
+          ...column.serving,
+          servingsPerContainer: column.serving.servingsPerContainer ?? result.serving?.servingsPerContainer,
+          matches: result.serving?.matches ?? [],
+        }
+      : result.serving;
+    onConfirm({ ...result, nutrients, serving });
+  };
+
+  const selectedWord = selected !== null ? words[selected] : null;
+
+  return (
+    <div className="space-y-4 text-left">
+      <p className="text-xs text-muted-foreground">
+        Tap a box to fix a misread number or assign it to a different nutrient.
+      </p>
+
+      <div className="flex justify-center">
+        <div className="relative inline-block">
+          {imageUrl && (
+            <img
+              src={imageUrl}
+              alt="Scanned label"
+              className="block max-w-full max-h-[28rem] rounded-lg"
+              onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
+          )}
+          {size && (
+            <svg
+              className="absolute inset-0 w-full h-full"
+              viewBox={`0 0 ${size.width} ${size.height}`}
+              preserveAspectRatio="none"
+            >
+              {words.map((word, index) => {
+                const owner = wordOwners.get(index);
+                const uncertain = owner && isLowConfidence(nutrients[owner]);
+                const { x0, y0, x1, y1 } = word.bbox;
+
+                return (
+                  <rect
+                    key={index}
+                    x={x0}
+                    y={y0}
+                    width={x1 - x0}
+                    height={y1 - y0}
+                    onClick={() => selectWord(index)}
+                    className={cn(
+                      'cursor-pointer',
+                      owner
+                        ? uncertain
+                          ? 'fill-amber-400/30 stroke-amber-500'
+                          : 'fill-primary/25 stroke-primary'
+                        : 'fill-transparent stroke-muted-foreground/40',
+                      selected === index && 'stroke-destructive'
+                    )}
+                    strokeWidth={selected === index ? 4 : 2}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                );
+              })}
+            </svg>
+          )}
+        </div>
+      </div>
+
+      {selectedWord && (
+        <div className="p-4 rounded-lg bg-muted space-y-3">
+          <p className="text-sm">
+            Read as <span className="font-mono font-medium">"{selectedWord.text}"</span>
+            <span className="text-xs text-muted-foreground ml-2">
+              ({Math.round(selectedWord.confidence)}% sure)
+            </span>
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="assignTo">Nutrient</Label>
+              <Select value={assignTo} onValueChange={(key) => setAssignTo(key as NutrientKey | 'none')}>
+                <SelectTrigger id="assignTo">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not a nutrient</SelectItem>
+                  {NUTRIENT_KEYS.map((key) => (
+                    <SelectItem key={key} value={key}>{NUTRIENT_INFO[key].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="correctedValue">
+                Value{assignTo !== 'none' && ` (${NUTRIENT_INFO[assignTo].unit})`}
+              </Label>
+              <Input
+                id="correctedValue"
+                type="number"
+                step="0.1"
+                min="0"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                disabled={assignTo === 'none'}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setSelected(null)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={applyCorrection}>
+              Apply
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {columns.length > 1 && (
+        <div className="space-y-2">
+          <Label>Which values do you want to log?</Label>
+          <RadioGroup
+            value={String(columnIndex)}
+            onValueChange={(value) => chooseColumn(Number(value))}
+            className={cn('grid gap-2', columns.length === 2 ? 'grid-cols-2' : 'grid-cols-3')}
+          >
+            {columns.map((column, index) => {
+              const values = columnNutrients[index];
+
+              return (
+                <Label
+                  key={index}
+                  htmlFor={`column-${index}`}
+                  className={cn(
+                    'p-3 rounded-lg border cursor-pointer space-y-2 font-normal',
+                    index === columnIndex && 'border-primary bg-primary/5'
+                  )}
+                >
+                  <div className="flex items-center gap-2 font-medium">
+                    <RadioGroupItem value={String(index)} id={`column-${index}`} />
+                    {columnTitle(column)}
+                  </div>
+                  <ul className="text-xs text-muted-foreground space-y-0.5">
+                    {NUTRIENT_KEYS.filter((key) => values[key]).map((key) => (
+                      <li key={key} className="flex justify-between gap-2">
+                        <span>{NUTRIENT_INFO[key].name}</span>
+                        <span>{values[key].lessThan && '<'}{values[key].value}{values[key].unit}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </Label>
+              );
+            })}
+          </RadioGroup>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.entries(nutrients) as [NutrientKey, ParsedNutrient][]).map(([key, nutrient]) => {
+          const index = valueWordIndex(nutrient, words);
+          return (
+            <Badge
+              key={key}
+              variant={isLowConfidence(nutrient) ? 'destructive' : 'secondary'}
+              className={cn(index !== -1 && 'cursor-pointer')}
+              onClick={() => index !== -1 && selectWord(index)}
+            >
+              {NUTRIENT_INFO[key].name}: {nutrient.lessThan && '<'}{nutrient.value}
+              {nutrient.unit}
+              {nutrient.percentDailyValue !== undefined && ` (${nutrient.percentDailyValue}% DV)`}
+            </Badge>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Button variant="outline" onClick={onBack} className="flex items-center gap-2">
+          <RotateCcw className="w-4 h-4" />
+          Scan Again
+        </Button>
+        <Button
+          onClick={confirm}
+          disabled={Object.keys(nutrients).length === 0}
+          className="flex items-center gap-2"
+        >
+          <Check className="w-4 h-4" />
+          Use These Values
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,505 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AllergenBadges } from '@/components/food/AllergenBadges';
+import { ArrowDown, ArrowLeft, ArrowUp, Check, ChefHat, Loader2, Merge, Pencil, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { toAllergens } from '@/lib/allergens';
+import { deleteFoods, duplicateKey, FoodMatch, listFoods, mergeFoods, updateFood } from '@/lib/food-library';
+import { foodColumn, MACRONUTRIENT_KEYS, MICRONUTRIENT_KEYS, NUTRIENT_INFO, NUTRIENT_KEYS } from '@/lib/nutrients';
+import { Food } from '@/lib/products';
+import { NutrientKey } from '@/types/nutrition';
+
+type SortKey = 'name' | NutrientKey | 'uses';
+
+interface Draft {
+  servingSize: string;
+  servingsPerContainer: string;
+  nutrition: Partial<Record<NutrientKey, string>>;
+}
+
+const sortValue = ({ food, uses }: FoodMatch, key: SortKey): string | number => {
+  if (key === 'name') return food.name.toLowerCase();
+  if (key === 'uses') return uses;
+  return food[foodColumn(key)] ?? 0;
+};
+
+const COLUMN_TITLES: Partial<Record<NutrientKey, string>> = {
+  calories: 'Calories',
+  protein: 'Protein',
+  carbs: 'Carbs',
+  fat: 'Fat',
+};
+
+// Every column in the table, for the row of further fields under one being edited
+const COLUMN_COUNT = MACRONUTRIENT_KEYS.length + 5;
+
+const draftFromFood = (food: Food): Draft => ({
+  servingSize: food.serving_size ?? '',
+  servingsPerContainer: String(food.servings_per_container ?? ''),
+  nutrition: Object.fromEntries(NUTRIENT_KEYS.map((key) => [key, String(food[foodColumn(key)] ?? '')])),
+});
+
+const parseDraftNumber = (value = '') => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed < 0 ? null : parsed;
+};
+
+export const FoodLibrary = () => {
+  const [foods, setFoods] = useState<FoodMatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'name', ascending: true });
+  const [selected, setSelected] = useState<string[]>([]);
+  const [editing, setEditing] = useState<{ id: string; draft: Draft } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [mergeInto, setMergeInto] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const loadFoods = useCallback(async () => {
+    try {
+      setFoods(await listFoods());
+    } catch (error) {
+      console.error('Error loading foods:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your foods",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadFoods();
+  }, [loadFoods]);
+
+  // Names shared by more than one food, for the duplicate hint
+  const duplicates = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const { food } of foods) counts.set(duplicateKey(food), (counts.get(duplicateKey(food)) ?? 0) + 1);
+    return counts;
+  }, [foods]);
+
+  const visible = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return foods
+      .filter(({ food }) => words.every((word) => `${food.name} ${food.brand ?? ''}`.toLowerCase().includes(word)))
+      .sort((a, b) => {
+        const x = sortValue(a, sort.key);
+        const y = sortValue(b, sort.key);
+        const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+        return sort.ascending ? order : -order;
+      });
+  }, [foods, query, sort]);
+
+  const selectedFoods = foods.filter(({ food }) => selected.includes(food.id));
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) => ({ key, ascending: prev.key === key ? !prev.ascending : key === 'name' }));
+
+  const toggleSelected = (id: string) =>
+    setSelected((prev) => (prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]));
+
+  const allVisibleSelected = visible.length > 0 && visible.every(({ food }) => selected.includes(food.id));
+  const toggleAllVisible = () =>
+    setSelected(allVisibleSelected ? [] : visible.map(({ food }) => food.id));
+
+  const selectDuplicates = (food: Food) =>
+    setSelected(foods.filter((other) => duplicateKey(other.food) === duplicateKey(food)).map((other) => other.food.id));
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    const match = foods.find(({ food }) => food.id === editing.id);
+    if (!match) return;
+
+    const changes: Partial<Food> = {
+      serving_size: editing.draft.servingSize.trim() || null,
+      servings_per_container: parseDraftNumber(editing.draft.servingsPerContainer),
+    };
+    const edited: NutrientKey[] = [];
+    for (const key of NUTRIENT_KEYS) {
+      const value = parseDraftNumber(editing.draft.nutrition[key]);
+      // Macros are required, so a blank one keeps its value; a blank
+      // micronutrient goes back to unknown
+      if (value === null && MACRONUTRIENT_KEYS.includes(key)) continue;
+      if (value !== match.food[foodColumn(key)]) edited.push(key);
+      changes[foodColumn(key)] = value;
+    }
+    // A corrected value is exact, not the label's "less than"
+    changes.less_than = match.food.less_than.filter((key) => !edited.includes(key as NutrientKey));
+
+    setIsSaving(true);
+    try {
+      const food = await updateFood(editing.id, changes);
+      setFoods((prev) => prev.map((other) => (other.food.id === food.id ? { ...other, food } : other)));
+      setEditing(null);
+    } catch (error) {
+      console.error('Error updating food:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save changes",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setConfirmDelete(false);
+    try {
+      await deleteFoods(selected);
+      toast({
+        title: "Deleted",
+        description: `Removed ${selected.length} ${selected.length === 1 ? 'food' : 'foods'} from your library`,
+      });
+      setSelected([]);
+      loadFoods();
+    } catch (error) {
+      console.error('Error deleting foods:', error);
+      toast({
+        title: "Error",
+        // Foreign key violation from recipe_ingredients
+        description: error?.code === '23503'
+          ? "Remove these foods from your recipes before deleting them"
+          : "Failed to delete foods",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeInto) return;
+    const kept = foods.find(({ food }) => food.id === mergeInto)?.food;
+    setMergeInto(null);
+    try {
+      await mergeFoods(kept.id, selected);
+      toast({
+        title: "Merged",
+        description: `Combined ${selected.length} foods into ${kept.name}`,
+      });
+      setSelected([]);
+      loadFoods();
+    } catch (error) {
+      console.error('Error merging foods:', error);
+      toast({
+        title: "Error",
+        description: "Failed to merge foods",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const sortHeader = (key: SortKey, label: string, className?: string) => (
+    <TableHead key={key} className={className}>
+      <button type="button" onClick={() => toggleSort(key)} className="inline-flex items-center gap-1 hover:text-foreground">
+        {label}
+        {sort.key === key && (sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+      </button>
+    </TableHead>
+  );
+
+  const setDraft = (update: (draft: Draft) => Draft) =>
+    setEditing((prev) => (prev ? { ...prev, draft: update(prev.draft) } : prev));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary p-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/" className="flex items-center gap-2">
+              <ArrowLeft className="w-4 h-4" />
+              Today
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            Food Library
+          </h1>
+          <div className="w-20" />
+        </div>
+
+        <Card className="p-6 bg-gradient-card shadow-soft space-y-4">
+          <div className="flex flex-col sm:flex-row gap-4 sm:items-center sm:justify-between">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name or brand"
+              className="sm:max-w-xs"
+            />
+            <div className="flex gap-2">
+              <Button asChild variant="outline" size="sm">
+                <Link to="/recipes/new" className="flex items-center gap-2">
+                  <ChefHat className="w-4 h-4" />
+                  New Recipe
+                </Link>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={selected.length < 2}
+                onClick={() => setMergeInto(selectedFoods.sort((a, b) => b.uses - a.uses)[0]?.food.id ?? null)}
+                className="flex items-center gap-2"
+              >
+                <Merge className="w-4 h-4" />
+                Merge
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={selected.length === 0}
+                onClick={() => setConfirmDelete(true)}
+                className="flex items-center gap-2 text-destructive hover:text-destructive"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete{selected.length > 0 && ` (${selected.length})`}
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : foods.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              Foods you log are saved here so you can reuse them.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8">
+                    <Checkbox checked={allVisibleSelected} onCheckedChange={toggleAllVisible} aria-label="Select all" />
+                  </TableHead>
+                  {sortHeader('name', 'Food')}
+                  <TableHead>Serving</TableHead>
+                  {MACRONUTRIENT_KEYS.map((key) => sortHeader(key, COLUMN_TITLES[key], 'text-right'))}
+                  {sortHeader('uses', 'Used', 'text-right')}
+                  <TableHead className="w-20" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(({ food, uses }) => {
+                  const draft = editing?.id === food.id ? editing.draft : null;
+                  const isDuplicate = (duplicates.get(duplicateKey(food)) ?? 0) > 1;
+
+                  return (
+                    <Fragment key={food.id}>
+                      <TableRow data-state={selected.includes(food.id) ? 'selected' : undefined}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selected.includes(food.id)}
+                            onCheckedChange={() => toggleSelected(food.id)}
+                            aria-label={`Select ${food.name}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">
+                            {food.name}
+                            {food.brand && <span className="text-muted-foreground font-normal"> ({food.brand})</span>}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-1 mt-1">
+                            {food.is_recipe && <Badge variant="secondary">Recipe</Badge>}
+                            {isDuplicate && (
+                              <Badge
+                                variant="outline"
+                                className="cursor-pointer text-amber-700 border-amber-500"
+                                onClick={() => selectDuplicates(food)}
+                              >
+                                Possible duplicate
+                              </Badge>
+                            )}
+                            <AllergenBadges allergens={toAllergens(food.allergens)} />
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {draft ? (
+                            <Input
+                              value={draft.servingSize}
+                              onChange={(e) => setDraft((d) => ({ ...d, servingSize: e.target.value }))}
+                              placeholder="e.g., 1 cup (240g)"
+                              className="h-8 w-32"
+                            />
+                          ) : (
+                            <span className="text-sm text-muted-foreground">{food.serving_size || '—'}</span>
+                          )}
+                        </TableCell>
+                        {MACRONUTRIENT_KEYS.map((key) => (
+                          <TableCell key={key} className="text-right">
+                            {draft ? (
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                value={draft.nutrition[key] ?? ''}
+                                onChange={(e) =>
+                                  setDraft((d) => ({ ...d, nutrition: { ...d.nutrition, [key]: e.target.value } }))
+                                }
+                                className="h-8 w-20 ml-auto text-right"
+                              />
+                            ) : (
+                              <>
+                                {food.less_than.includes(key) && '<'}
+                                {Math.round(food[foodColumn(key)] * 10) / 10}
+                                {key !== 'calories' && NUTRIENT_INFO[key].unit}
+                              </>
+                            )}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right">{uses}</TableCell>
+                        <TableCell>
+                          {draft ? (
+                            <div className="flex justify-end gap-1">
+                              <Button variant="ghost" size="icon" onClick={saveEdit} disabled={isSaving} aria-label="Save">
+                                <Check className="w-4 h-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" onClick={() => setEditing(null)} aria-label="Cancel">
+                                <X className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          ) : (
+                            <div className="flex justify-end">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                // Recipe values are worked out from the ingredients, so those are edited instead
+                                onClick={() =>
+                                  food.is_recipe
+                                    ? navigate(`/recipes/${food.id}`)
+                                    : setEditing({ id: food.id, draft: draftFromFood(food) })
+                                }
+                                aria-label={`Edit ${food.name}`}
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {draft && (
+                        <TableRow className="hover:bg-transparent">
+                          <TableCell />
+                          <TableCell colSpan={COLUMN_COUNT - 1}>
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                              <div className="space-y-1">
+                                <Label htmlFor={`${food.id}-servings`} className="text-xs">Servings / Container</Label>
+                                <Input
+                                  id={`${food.id}-servings`}
+                                  type="number"
+                                  min="0"
+                                  step="0.1"
+                                  value={draft.servingsPerContainer}
+                                  onChange={(e) => setDraft((d) => ({ ...d, servingsPerContainer: e.target.value }))}
+                                  className="h-8"
+                                />
+                              </div>
+                              {MICRONUTRIENT_KEYS.map((key) => (
+                                <div key={key} className="space-y-1">
+                                  <Label htmlFor={`${food.id}-${key}`} className="text-xs">
+                                    {NUTRIENT_INFO[key].name} ({NUTRIENT_INFO[key].unit})
+                                  </Label>
+                                  <Input
+                                    id={`${food.id}-${key}`}
+                                    type="number"
+                                    min="0"
+                                    step="0.1"
+                                    value={draft.nutrition[key] ?? ''}
+                                    onChange={(e) =>
+                                      setDraft((d) => ({ ...d, nutrition: { ...d.nutrition, [key]: e.target.value } }))
+                                    }
+                                    className="h-8"
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {selected.length} {selected.length === 1 ? 'food' : 'foods'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              They will no longer show up in search or barcode scans. Entries you already logged keep their values.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={mergeInto !== null} onOpenChange={(open) => !open && setMergeInto(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge {selected.length} foods</DialogTitle>
+            <DialogDescription>
+              Choose the one to keep. Logged entries and barcodes from the others move to it, and the others are deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <RadioGroup value={mergeInto ?? undefined} onValueChange={setMergeInto} className="space-y-2">
+            {selectedFoods.map(({ food, uses }) => (
+              <div key={food.id} className="flex items-center gap-3">
+                <RadioGroupItem value={food.id} id={`merge-${food.id}`} />
+                <Label htmlFor={`merge-${food.id}`} className="font-normal">
+                  {food.name}
+                  {food.brand && <span className="text-muted-foreground"> ({food.brand})</span>}
+                  <span className="text-xs text-muted-foreground">
+                    {' '}• {Math.round(food.calories_per_serving)} cal • used {uses}×
+                  </span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeInto(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge}>Merge</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,256 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FoodSearchInput } from '@/components/food/FoodSearchInput';
+import { NutritionCard } from '@/components/nutrition/NutritionCard';
+import { ArrowLeft, Loader2, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Food } from '@/lib/products';
+import {
+  IngredientUnit,
+  ingredientServings,
+  loadRecipe,
+  Recipe,
+  RecipeIngredient,
+  recipePerServing,
+  saveRecipe,
+  YieldUnit,
+} from '@/lib/recipes';
+import { repository } from '@/lib/repositories';
+import { parseServingSize } from '@/lib/servings';
+import { NutritionData } from '@/types/nutrition';
+
+interface RecipeBuilderProps {
+  // Edits an existing recipe; without one, builds a new recipe
+  recipeId?: string;
+}
+
+const emptyRecipe: Recipe = { name: '', ingredients: [], yield: { amount: 4, unit: 'serving' } };
+
+export const RecipeBuilder = ({ recipeId }: RecipeBuilderProps) => {
+  const [recipe, setRecipe] = useState<Recipe>(emptyRecipe);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(!!recipeId);
+  const [isSaving, setIsSaving] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!recipeId) return;
+
+    loadRecipe(recipeId)
+      .then(setRecipe)
+      .catch((error) => {
+        console.error('Error loading recipe:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load recipe",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [recipeId, toast]);
+
+  const addIngredient = (food: Food) => {
+    setSearch('');
+    if (food.id === recipe.id) return;
+    setRecipe((prev) => ({ ...prev, ingredients: [...prev.ingredients, { food, amount: 1, unit: 'serving' }] }));
+  };
+
+  const updateIngredient = (index: number, changes: Partial<RecipeIngredient>) =>
+    setRecipe((prev) => ({
+      ...prev,
+      ingredients: prev.ingredients.map((ingredient, i) => (i === index ? { ...ingredient, ...changes } : ingredient)),
+    }));
+
+  const removeIngredient = (index: number) =>
+    setRecipe((prev) => ({ ...prev, ingredients: prev.ingredients.filter((_, i) => i !== index) }));
+
+  const canCalculate =
+    recipe.yield.amount > 0 &&
+    recipe.ingredients.length > 0 &&
+    recipe.ingredients.every((ingredient) => ingredient.amount > 0 && ingredientServings(ingredient) !== null);
+  const perServing = canCalculate ? recipePerServing(recipe) : null;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const userId = await repository.currentUserId();
+      if (!userId) return;
+
+      const food = await saveRecipe(userId, { ...recipe, name: recipe.name.trim() });
+      toast({
+        title: "Saved",
+        description: `${food.name} is in your food library`,
+      });
+      navigate('/foods');
+    } catch (error) {
+      console.error('Error saving recipe:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save recipe",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/foods" className="flex items-center gap-2">
+              <ArrowLeft className="w-4 h-4" />
+              Library
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            {recipeId ? 'Edit Recipe' : 'New Recipe'}
+          </h1>
+          <div className="w-20" />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <Card className="p-6 bg-gradient-card shadow-soft space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="recipeName">Recipe Name *</Label>
+                <Input
+                  id="recipeName"
+                  value={recipe.name}
+                  onChange={(e) => setRecipe((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Chili"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="ingredientSearch">Add Ingredient</Label>
+                <FoodSearchInput
+                  id="ingredientSearch"
+                  value={search}
+                  onChange={setSearch}
+                  onSelect={addIngredient}
+                  placeholder="Search your foods"
+                />
+              </div>
+
+              {recipe.ingredients.length > 0 && (
+                <div className="space-y-2">
+                  {recipe.ingredients.map((ingredient, index) => {
+                    const serving = parseServingSize(ingredient.food.serving_size ?? '');
+                    const servings = ingredientServings(ingredient);
+
+                    return (
+                      <div
+                        key={`${ingredient.food.id}-${index}`}
+                        className="flex items-center gap-2 p-3 bg-background/50 rounded-lg"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium truncate">{ingredient.food.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {servings === null
+                              ? 'Serving weight unknown'
+                              : `${Math.round(ingredient.food.calories_per_serving * servings)} cal`}
+                          </div>
+                        </div>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          value={ingredient.amount || ''}
+                          onChange={(e) => updateIngredient(index, { amount: parseFloat(e.target.value) || 0 })}
+                          className="w-20"
+                          aria-label={`Amount of ${ingredient.food.name}`}
+                        />
+                        <Select
+                          value={ingredient.unit}
+                          onValueChange={(unit) => updateIngredient(index, { unit: unit as IngredientUnit })}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="serving">servings</SelectItem>
+                            {serving.amount && <SelectItem value="amount">{serving.unit ?? 'g'}</SelectItem>}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeIngredient(index)}
+                          className="text-destructive hover:text-destructive"
+                          aria-label={`Remove ${ingredient.food.name}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="recipeYield">Makes</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="recipeYield"
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={recipe.yield.amount || ''}
+                    onChange={(e) =>
+                      setRecipe((prev) => ({ ...prev, yield: { ...prev.yield, amount: parseFloat(e.target.value) || 0 } }))
+                    }
+                    className="w-28"
+                  />
+                  <Select
+                    value={recipe.yield.unit}
+                    onValueChange={(unit) =>
+                      setRecipe((prev) => ({ ...prev, yield: { ...prev.yield, unit: unit as YieldUnit } }))
+                    }
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="serving">servings</SelectItem>
+                      <SelectItem value="g">g cooked weight</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {recipe.yield.unit === 'g' && (
+                  <p className="text-xs text-muted-foreground">Logged in servings of 100 g.</p>
+                )}
+              </div>
+            </Card>
+
+            {perServing && (
+              <NutritionCard
+                title={recipe.yield.unit === 'g' ? 'Per 100 g' : 'Per serving'}
+                nutrition={perServing as NutritionData}
+              />
+            )}
+
+            <Button
+              onClick={handleSave}
+              className="w-full"
+              disabled={isSaving || !recipe.name.trim() || !canCalculate}
+            >
+              {isSaving ? "Saving..." : "Save Recipe"}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
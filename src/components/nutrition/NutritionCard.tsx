@@ -1,6 +1,7 @@
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { NutritionData } from '@/types/nutrition';
+import { DAILY_VALUES, MICRONUTRIENT_KEYS, NUTRIENT_INFO } from '@/lib/nutrients';
+import { NutrientKey, NutritionData } from '@/types/nutrition';
 
 interface NutritionCardProps {
   title: string;
@@ -9,6 +10,15 @@ interface NutritionCardProps {
   className?: string;
 }
 
+// Limits rather than Daily Values where the two differ; trans fat has neither
+const MICRONUTRIENT_GOALS: Partial<Record<NutrientKey, number>> = {
+  fiber: 25,
+  sugar: 50,
+};
+
+// Nutrients with their own colour in index.css; the rest use the primary colour
+const NUTRIENT_COLORS: NutrientKey[] = ['fiber', 'sugar', 'sodium', 'cholesterol'];
+
 export const NutritionCard = ({ title, nutrition, goals, className }: NutritionCardProps) => {
   const nutrients = [
     {
@@ -39,41 +49,13 @@ export const NutritionCard = ({ title, nutrition, goals, className }: NutritionC
       color: 'fat',
       unit: 'g'
     },
-    ...(nutrition.fiber !== undefined && nutrition.fiber > 0 ? [{
-      name: 'Fiber',
-      value: nutrition.fiber,
-      goal: goals?.fiber || 25,
-      color: 'fiber',
-      unit: 'g'
-    }] : []),
-    ...(nutrition.sugar !== undefined && nutrition.sugar > 0 ? [{
-      name: 'Sugar',
-      value: nutrition.sugar,
-      goal: goals?.sugar || 50,
-      color: 'sugar',
-      unit: 'g'
-    }] : []),
-    ...(nutrition.sodium !== undefined && nutrition.sodium > 0 ? [{
-      name: 'Sodium',
-      value: nutrition.sodium,
-      goal: goals?.sodium || 2300,
-      color: 'sodium',
-      unit: 'mg'
-    }] : []),
-    ...(nutrition.cholesterol !== undefined && nutrition.cholesterol > 0 ? [{
-      name: 'Cholesterol',
-      value: nutrition.cholesterol,
-      goal: goals?.cholesterol || 300,
-      color: 'cholesterol',
-      unit: 'mg'
-    }] : []),
-    ...(nutrition.saturatedFat !== undefined && nutrition.saturatedFat > 0 ? [{
-      name: 'Sat Fat',
-      value: nutrition.saturatedFat,
-      goal: goals?.saturatedFat || 20,
-      color: 'saturatedFat',
-      unit: 'g'
-    }] : [])
+    ...MICRONUTRIENT_KEYS.filter((key) => nutrition[key] > 0).map((key) => ({
+      name: NUTRIENT_INFO[key].name,
+      value: nutrition[key],
+      goal: goals?.[key] || MICRONUTRIENT_GOALS[key] || DAILY_VALUES[key],
+      color: NUTRIENT_COLORS.includes(key) ? key : 'primary',
+      unit: NUTRIENT_INFO[key].unit
+    }))
   ].filter(Boolean);
 
   return (
@@ -81,18 +63,19 @@ export const NutritionCard = ({ title, nutrition, goals, className }: NutritionC
       <h3 className="text-lg font-semibold mb-4">{title}</h3>
       <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
         {nutrients.map((nutrient) => {
-          const percentage = goals ? Math.min((nutrient.value / nutrient.goal) * 100, 100) : 0;
+          const hasGoal = goals && nutrient.goal !== undefined;
+          const percentage = hasGoal ? Math.min((nutrient.value / nutrient.goal) * 100, 100) : 0;
           
           return (
             <div key={nutrient.name} className="space-y-2">
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium">{nutrient.name}</span>
                 <span className="text-sm text-muted-foreground">
-                  {nutrient.value}{nutrient.unit}
-                  {goals && <span className="text-xs">/{nutrient.goal}{nutrient.unit}</span>}
+                  {Math.round(nutrient.value * 10) / 10}{nutrient.unit}
+                  {hasGoal && <span className="text-xs">/{nutrient.goal}{nutrient.unit}</span>}
                 </span>
               </div>
-              {goals && (
+              {hasGoal && (
                 <Progress 
                   value={percentage} 
                   className="h-2"
@@ -101,7 +84,7 @@ export const NutritionCard = ({ title, nutrition, goals, className }: NutritionC
                   } as React.CSSProperties}
                 />
               )}
-              {!goals && (
+              {!hasGoal && (
                 <div 
                   className={`h-2 rounded-full bg-${nutrient.color} opacity-60`}
                   style={{ backgroundColor: `hsl(var(--${nutrient.color}))` }}
@@ -0,0 +1,259 @@
+import { useCallback, useEffect } from 'react';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+import { DayLog, emptyDay, FoodEntry, FoodLogInput, withEntry, withoutEntry } from '@/lib/daily-logs';
+import { localGet, localPut } from '@/lib/local-db';
+import { fromColumns, totalColumn } from '@/lib/nutrients';
+import { applyOutbox, isOfflineError, listOutbox, queueAdd, queueDelete, queueUpdate, syncOutbox } from '@/lib/outbox';
+import { repository } from '@/lib/repositories';
+
+export type { DayLog } from '@/lib/daily-logs';
+
+export const dayKey = (date: string) => ['day', date] as const;
+export const foodKey = (id: string) => ['foods', id] as const;
+
+const snapshotKey = (userId: string, date: string) => `${userId}/${date}`;
+
+// The day as the server has it. The last copy fetched is kept on the device
+// and stands in when there's no connection.
+const fetchDay = async (userId: string, date: string): Promise<DayLog> => {
+  try {
+    const log = await repository.logs.findByDate(userId, date);
+    const day: DayLog = log
+      ? {
+          totals: { ...emptyDay.totals, ...fromColumns(log, totalColumn) },
+          entries: await repository.entries.listForLog(log.id),
+          unsynced: {},
+        }
+      : emptyDay;
+    await localPut('days', day, snapshotKey(userId, date));
+    return day;
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    return (await localGet<DayLog>('days', snapshotKey(userId, date))) ?? emptyDay;
+  }
+};
+
+const loadDay = async (date: string): Promise<DayLog> => {
+  const userId = await repository.currentUserId();
+  if (!userId) return emptyDay;
+
+  // Read before the server, so a change that syncs in between shows up twice
+  // (and replaces itself) rather than not at all
+  const outbox = await listOutbox(userId);
+  return applyOutbox(await fetchDay(userId, date), date, outbox);
+};
+
+// The entry as it will look once saved, for showing straight away
+const localEntry = ({ entry }: FoodLogInput, existing?: FoodEntry): FoodEntry =>
+  ({
+    food_brand: null,
+    food_id: null,
+    quantity: 1,
+    meal: 'snack',
+    time_zone: null,
+    allergens: [],
+    less_than: [],
+    ...existing,
+    ...entry,
+    id: existing?.id ?? entry.id,
+    created_at: existing?.created_at ?? entry.created_at,
+    updated_at: existing?.updated_at ?? entry.created_at,
+  }) as FoodEntry;
+
+const requireUserId = async () => {
+  const userId = await repository.currentUserId();
+  if (!userId) throw new Error('Not signed in');
+  return userId;
+};
+
+// Refetched in the background whenever the window regains focus. Works
+// offline from the device's copy, so it runs without a connection too.
+export const useDayLog = (date: string) =>
+  useQuery({
+    queryKey: dayKey(date),
+    queryFn: () => loadDay(date),
+    // Keeps the last day on screen while the next one loads
+    placeholderData: keepPreviousData,
+    networkMode: 'always',
+  });
+
+export const useFood = (id: string | null | undefined) =>
+  useQuery({
+    queryKey: foodKey(id ?? ''),
+    queryFn: () => repository.foods.get(id),
+    enabled: !!id,
+  });
+
+// Sends queued changes and refreshes whatever they touched
+const useSync = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(async () => {
+    try {
+      const { synced, failed, conflicts, saved } = await syncOutbox();
+      if (synced + failed + conflicts.length === 0) return;
+
+      // Until the days refetch, an edit is made against the entries on
+      // screen, so they need the server's version or it looks like a conflict
+      const versions = new Map(saved.map((entry) => [entry.id, entry.updated_at]));
+      queryClient.setQueriesData<DayLog>({ queryKey: ['day'] }, (day) =>
+        day && {
+          ...day,
+          entries: day.entries.map((e) => (versions.has(e.id) ? { ...e, updated_at: versions.get(e.id) } : e)),
+        }
+      );
+      queryClient.invalidateQueries({ queryKey: ['day'] });
+      queryClient.invalidateQueries({ queryKey: ['foods'] });
+      for (const message of conflicts) {
+        toast({
+          title: "Changed on another device",
+          description: message,
+        });
+      }
+    } catch (error) {
+      console.error('Error syncing:', error);
+    }
+  }, [queryClient]);
+};
+
+// Syncs on start, whenever the connection comes back, and on focus. Returns
+// a function to sync right away.
+export const useOutboxSync = () => {
+  const sync = useSync();
+
+  useEffect(() => {
+    sync();
+    window.addEventListener('online', sync);
+    window.addEventListener('focus', sync);
+    return () => {
+      window.removeEventListener('online', sync);
+      window.removeEventListener('focus', sync);
+    };
+  }, [sync]);
+
+  return sync;
+};
+
+// Snapshots of the days a mutation touched, put back if it fails
+type Rollback = [date: string, day: DayLog | undefined][];
+
+// Changes are saved on the device and show straight away; they reach the
+// server when there's a connection
+export const useDayLogMutations = () => {
+  const queryClient = useQueryClient();
+  const sync = useSync();
+
+  // Stops in-flight loads from overwriting the optimistic change, then makes it
+  const change = async (changes: [date: string, update: (day: DayLog | undefined) => DayLog][]) => {
+    const rollback: Rollback = [];
+    for (const [date, update] of changes) {
+      await queryClient.cancelQueries({ queryKey: dayKey(date) });
+      rollback.push([date, queryClient.getQueryData<DayLog>(dayKey(date))]);
+      queryClient.setQueryData<DayLog>(dayKey(date), update);
+    }
+    return rollback;
+  };
+
+  // Newest snapshot first, so a day changed twice ends up as it started
+  const undo = (rollback: Rollback | undefined) => {
+    for (const [date, day] of [...(rollback ?? [])].reverse()) queryClient.setQueryData(dayKey(date), day);
+  };
+
+  const pending = (day: DayLog = emptyDay, entry: FoodEntry): DayLog => ({
+    ...withEntry(day, entry),
+    unsynced: { ...day.unsynced, [entry.id]: null },
+  });
+
+  const afterSave = (dates: string[]) => {
+    for (const date of new Set(dates)) queryClient.invalidateQueries({ queryKey: dayKey(date) });
+    sync();
+  };
+
+  const add = useMutation({
+    networkMode: 'always',
+    mutationFn: async (input: FoodLogInput) => queueAdd(await requireUserId(), input, localEntry(input)),
+    onMutate: (input) => change([[input.date, (day) => pending(day, localEntry(input))]]),
+    onSuccess: (_, input) => {
+      toast({
+        title: "Success!",
+        description: `Added ${input.entry.food_name} to your daily log`,
+      });
+    },
+    onError: (error, input, rollback) => {
+      console.error('Error saving food:', error);
+      undo(rollback);
+      toast({
+        title: "Error",
+        description: `Failed to add ${input.entry.food_name}. Please try again.`,
+        variant: "destructive",
+      });
+    },
+    onSettled: (_, __, input) => afterSave([input.date]),
+  });
+
+  const update = useMutation({
+    networkMode: 'always',
+    mutationFn: async ({ entry, input }: { entry: FoodEntry; fromDate: string; input: FoodLogInput }) =>
+      queueUpdate(await requireUserId(), input, localEntry(input, entry)),
+    onMutate: ({ entry, fromDate, input }) =>
+      change([
+        [fromDate, (day) => withoutEntry(day, entry.id)],
+        [input.date, (day) => pending(day, localEntry(input, entry))],
+      ]),
+    onSuccess: (_, { input }) => {
+      toast({
+        title: "Saved",
+        description: `Updated ${input.entry.food_name}`,
+      });
+    },
+    onError: (error, _, rollback) => {
+      console.error('Error saving food:', error);
+      undo(rollback);
+      toast({
+        title: "Error",
+        description: "Failed to save changes. Please try again.",
+        variant: "destructive",
+      });
+    },
+    onSettled: (_, __, { fromDate, input }) => afterSave([fromDate, input.date]),
+  });
+
+  const remove = useMutation({
+    networkMode: 'always',
+    mutationFn: async ({ entry, date }: { entry: FoodEntry; date: string }) =>
+      queueDelete(await requireUserId(), date, entry.id),
+    onMutate: ({ entry, date }) => change([[date, (day) => withoutEntry(day, entry.id)]]),
+    onSuccess: () => {
+      toast({
+        title: "Deleted",
+        description: "Food entry removed",
+      });
+    },
+    onError: (error, _, rollback) => {
+      console.error('Error deleting food entry:', error);
+      undo(rollback);
+      toast({
+        title: "Error",
+        description: "Failed to delete entry",
+        variant: "destructive",
+      });
+    },
+    onSettled: (_, __, { date }) => afterSave([date]),
+  });
+
+  return {
+    // New entries get their id here, so a retried sync can't log one twice
+    add: (input: FoodLogInput) =>
+      add.mutate({ ...input, entry: { ...input.entry, id: crypto.randomUUID(), created_at: new Date().toISOString() } }),
+    // The form may have opened on an older copy of the entry than the day
+    // now shows, e.g. from before a sync
+    update: (entry: FoodEntry, fromDate: string, input: FoodLogInput) =>
+      update.mutate({
+        entry: queryClient.getQueryData<DayLog>(dayKey(fromDate))?.entries.find((e) => e.id === entry.id) ?? entry,
+        fromDate,
+        input,
+      }),
+    remove: (entry: FoodEntry, date: string) => remove.mutate({ entry, date }),
+  };
+};
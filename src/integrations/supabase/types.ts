@@ -19,10 +19,21 @@ export type Database = {
           created_at: string
           date: string
           id: string
+          total_added_sugar: number
+          total_calcium: number
           total_calories: number
           total_carbs: number
+          total_cholesterol: number
           total_fat: number
+          total_fiber: number
+          total_iron: number
+          total_potassium: number
           total_protein: number
+          total_saturated_fat: number
+          total_sodium: number
+          total_sugar: number
+          total_trans_fat: number
+          total_vitamin_d: number
           updated_at: string
           user_id: string
         }
@@ -30,10 +41,21 @@ export type Database = {
           created_at?: string
           date: string
           id?: string
+          total_added_sugar?: number
+          total_calcium?: number
           total_calories?: number
           total_carbs?: number
+          total_cholesterol?: number
           total_fat?: number
+          total_fiber?: number
+          total_iron?: number
+          total_potassium?: number
           total_protein?: number
+          total_saturated_fat?: number
+          total_sodium?: number
+          total_sugar?: number
+          total_trans_fat?: number
+          total_vitamin_d?: number
           updated_at?: string
           user_id: string
         }
@@ -41,10 +63,21 @@ export type Database = {
           created_at?: string
           date?: string
           id?: string
+          total_added_sugar?: number
+          total_calcium?: number
           total_calories?: number
           total_carbs?: number
+          total_cholesterol?: number
           total_fat?: number
+          total_fiber?: number
+          total_iron?: number
+          total_potassium?: number
           total_protein?: number
+          total_saturated_fat?: number
+          total_sodium?: number
+          total_sugar?: number
+          total_trans_fat?: number
+          total_vitamin_d?: number
           updated_at?: string
           user_id?: string
         }
@@ -52,46 +85,94 @@ export type Database = {
       }
       food_entries: {
         Row: {
+          added_sugar: number | null
+          allergens: string[]
+          calcium: number | null
           calories: number
           carbs: number
+          cholesterol: number | null
           created_at: string
           daily_log_id: string
           fat: number
+          fiber: number | null
           food_brand: string | null
           food_id: string | null
           food_name: string
           id: string
+          iron: number | null
+          less_than: string[]
+          meal: string
+          potassium: number | null
           protein: number
           quantity: number
+          saturated_fat: number | null
+          sodium: number | null
+          sugar: number | null
+          time_zone: string | null
+          trans_fat: number | null
+          updated_at: string
           user_id: string
+          vitamin_d: number | null
         }
         Insert: {
+          added_sugar?: number | null
+          allergens?: string[]
+          calcium?: number | null
           calories: number
           carbs?: number
+          cholesterol?: number | null
           created_at?: string
           daily_log_id: string
           fat?: number
+          fiber?: number | null
           food_brand?: string | null
           food_id?: string | null
           food_name: string
           id?: string
+          iron?: number | null
+          less_than?: string[]
+          meal?: string
+          potassium?: number | null
           protein?: number
           quantity?: number
+          saturated_fat?: number | null
+          sodium?: number | null
+          sugar?: number | null
+          time_zone?: string | null
+          trans_fat?: number | null
+          updated_at?: string
           user_id: string
+          vitamin_d?: number | null
         }
         Update: {
+          added_sugar?: number | null
+          allergens?: string[]
+          calcium?: number | null
           calories?: number
           carbs?: number
+          cholesterol?: number | null
           created_at?: string
           daily_log_id?: string
           fat?: number
+          fiber?: number | null
           food_brand?: string | null
           food_id?: string | null
           food_name?: string
           id?: string
+          iron?: number | null
+          less_than?: string[]
+          meal?: string
+          potassium?: number | null
           protein?: number
           quantity?: number
+          saturated_fat?: number | null
+          sodium?: number | null
+          sugar?: number | null
+          time_zone?: string | null
+          trans_fat?: number | null
+          updated_at?: string
           user_id?: string
+          vitamin_d?: number | null
         }
         Relationships: [
           {
@@ -112,43 +193,97 @@ export type Database = {
       }
       foods: {
         Row: {
+          added_sugar_per_serving: number | null
+          allergens: string[]
           brand: string | null
+          calcium_per_serving: number | null
           calories_per_serving: number
           carbs_per_serving: number
+          cholesterol_per_serving: number | null
           created_at: string
           fat_per_serving: number
+          fiber_per_serving: number | null
           id: string
+          ingredients: string[] | null
+          iron_per_serving: number | null
+          is_recipe: boolean
+          less_than: string[]
           name: string
+          potassium_per_serving: number | null
           protein_per_serving: number
+          recipe_yield: number | null
+          recipe_yield_unit: string | null
+          saturated_fat_per_serving: number | null
           serving_size: string | null
+          servings_per_container: number | null
+          sodium_per_serving: number | null
+          sugar_per_serving: number | null
+          trans_fat_per_serving: number | null
           updated_at: string
           user_id: string
+          vitamin_d_per_serving: number | null
         }
         Insert: {
+          added_sugar_per_serving?: number | null
+          allergens?: string[]
           brand?: string | null
+          calcium_per_serving?: number | null
           calories_per_serving: number
           carbs_per_serving?: number
+          cholesterol_per_serving?: number | null
           created_at?: string
           fat_per_serving?: number
+          fiber_per_serving?: number | null
           id?: string
+          ingredients?: string[] | null
+          iron_per_serving?: number | null
+          is_recipe?: boolean
+          less_than?: string[]
           name: string
+          potassium_per_serving?: number | null
           protein_per_serving?: number
+          recipe_yield?: number | null
+          recipe_yield_unit?: string | null
+          saturated_fat_per_serving?: number | null
           serving_size?: string | null
+          servings_per_container?: number | null
+          sodium_per_serving?: number | null
+          sugar_per_serving?: number | null
+          trans_fat_per_serving?: number | null
           updated_at?: string
           user_id: string
+          vitamin_d_per_serving?: number | null
         }
         Update: {
+          added_sugar_per_serving?: number | null
+          allergens?: string[]
           brand?: string | null
+          calcium_per_serving?: number | null
           calories_per_serving?: number
           carbs_per_serving?: number
+          cholesterol_per_serving?: number | null
           created_at?: string
           fat_per_serving?: number
+          fiber_per_serving?: number | null
           id?: string
+          ingredients?: string[] | null
+          iron_per_serving?: number | null
+          is_recipe?: boolean
+          less_than?: string[]
           name?: string
+          potassium_per_serving?: number | null
           protein_per_serving?: number
+          recipe_yield?: number | null
+          recipe_yield_unit?: string | null
+          saturated_fat_per_serving?: number | null
           serving_size?: string | null
+          servings_per_container?: number | null
+          sodium_per_serving?: number | null
+          sugar_per_serving?: number | null
+          trans_fat_per_serving?: number | null
           updated_at?: string
           user_id?: string
+          vitamin_d_per_serving?: number | null
         }
         Relationships: []
       }
@@ -158,6 +293,7 @@ export type Database = {
           email: string | null
           full_name: string | null
           id: string
+          time_zone: string | null
           updated_at: string
           user_id: string
         }
@@ -166,6 +302,7 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
+          time_zone?: string | null
           updated_at?: string
           user_id: string
         }
@@ -174,17 +311,149 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
+          time_zone?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      meal_goals: {
+        Row: {
+          calories: number | null
+          carbs: number | null
+          created_at: string
+          fat: number | null
+          id: string
+          meal: string
+          protein: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string
+          fat?: number | null
+          id?: string
+          meal: string
+          protein?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string
+          fat?: number | null
+          id?: string
+          meal?: string
+          protein?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      products: {
+        Row: {
+          barcode: string
+          created_at: string
+          food_id: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          barcode: string
+          created_at?: string
+          food_id: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          barcode?: string
+          created_at?: string
+          food_id?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_food_id_fkey"
+            columns: ["food_id"]
+            isOneToOne: false
+            referencedRelation: "foods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipe_ingredients: {
+        Row: {
+          amount: number
+          created_at: string
+          food_id: string
+          id: string
+          position: number
+          recipe_id: string
+          unit: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          food_id: string
+          id?: string
+          position?: number
+          recipe_id: string
+          unit?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          food_id?: string
+          id?: string
+          position?: number
+          recipe_id?: string
+          unit?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_ingredients_food_id_fkey"
+            columns: ["food_id"]
+            isOneToOne: false
+            referencedRelation: "foods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_ingredients_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "foods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_or_create_daily_log: {
+        Args: { p_date: string }
+        Returns: string
+      }
+      merge_foods: {
+        Args: { keep_id: string; duplicate_ids: string[] }
+        Returns: undefined
+      }
+      recalculate_daily_log: {
+        Args: { log_id: string }
+        Returns: undefined
+      }
+      reconcile_daily_logs: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,20 @@
+import { Allergen } from '@/types/nutrition';
+
+// Display names for the major allergens, in the order they are listed
+export const ALLERGEN_NAMES: Record<Allergen, string> = {
+  milk: 'Milk',
+  egg: 'Egg',
+  peanut: 'Peanut',
+  treeNut: 'Tree nuts',
+  soy: 'Soy',
+  wheat: 'Wheat',
+  fish: 'Fish',
+  shellfish: 'Shellfish',
+  sesame: 'Sesame',
+};
+
+export const ALLERGENS = Object.keys(ALLERGEN_NAMES) as Allergen[];
+
+// Stored allergen lists are plain text arrays; drops anything unrecognised
+export const toAllergens = (values?: string[] | null): Allergen[] =>
+  ALLERGENS.filter((allergen) => values?.includes(allergen));
@@ -0,0 +1,228 @@
+// EAN-13 / UPC-A / EAN-8 barcode reading. Uses the browser's BarcodeDetector
+// where there is one (Chrome on Android) and otherwise scans rows of pixels
+// for the bar pattern ourselves.
+
+// Decoding more pixels than this only slows the scanline search down
+const MAX_SIDE = 1280;
+const SCANLINES = 24;
+
+// Widths (space, bar, space, bar) of each digit in the L code. R codes have
+// the same widths starting with a bar; G codes are the L widths reversed.
+const L_PATTERNS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2],
+];
+const G_PATTERNS = L_PATTERNS.map((pattern) => [...pattern].reverse());
+// Left-half digits of an EAN-13 can be either; index 10+ means a G code
+const LG_PATTERNS = [...L_PATTERNS, ...G_PATTERNS];
+
+// The mix of L and G codes on the left half of an EAN-13 encodes its first digit
+const FIRST_DIGIT_PARITY = [
+  'LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG',
+  'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL',
+];
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect: (source: CanvasImageSource) => Promise<DetectedBarcode[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetectorLike;
+  }
+}
+
+let nativeDetector: BarcodeDetectorLike | null | undefined;
+
+const getNativeDetector = () => {
+  if (nativeDetector === undefined) {
+    nativeDetector = window.BarcodeDetector
+      ? new window.BarcodeDetector({ formats: ['ean_13', 'ean_8', 'upc_a'] })
+      : null;
+  }
+  return nativeDetector;
+};
+
+const hasValidCheckDigit = (code: string) => {
+  const digits = code.split('').map(Number);
+  const check = digits.pop();
+  // Weights alternate 3, 1 starting from the digit next to the check digit
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+// Codes are stored as GTIN-13 where possible, so a UPC-A read as 12 digits
+// and the same code read as EAN-13 (with a leading 0) match
+export const normalizeBarcode = (code: string): string | null => {
+  const digits = code.replace(/\D/g, '');
+  if (![8, 12, 13].includes(digits.length) || !hasValidCheckDigit(digits)) return null;
+  return digits.length === 12 ? `0${digits}` : digits;
+};
+
+// Shows UPC-A codes the way they are printed on US packaging
+export const formatBarcode = (code: string) =>
+  code.length === 13 && code.startsWith('0') ? code.slice(1) : code;
+
+const matchDigit = (runs: number[], patterns: number[][]) => {
+  const total = runs.reduce((sum, run) => sum + run, 0);
+  let best = -1;
+  let bestError = Infinity;
+
+  patterns.forEach((pattern, index) => {
+    let error = 0;
+    for (let i = 0; i < 4; i++) error += Math.abs((runs[i] * 7) / total - pattern[i]);
+    if (error < bestError) {
+      bestError = error;
+      best = index;
+    }
+  });
+
+  // Over about one module off in total means this isn't a digit at all
+  return bestError < 1.5 ? best : -1;
+};
+
+const isGuard = (runs: number[], module: number) =>
+  runs.every((run) => run > module * 0.5 && run < module * 1.5);
+
+// Tries to read a barcode whose start guard's first bar is runs[start]
+const decodeAt = (runs: number[], start: number, leftDigits: number): string | null => {
+  const module = (runs[start] + runs[start + 1] + runs[start + 2]) / 3;
+  const length = 3 + leftDigits * 8 + 5 + 3;
+  if (start + length > runs.length) return null;
+  if (!isGuard(runs.slice(start, start + 3), module)) return null;
+  // Needs a quiet zone before the start guard
+  if (start > 0 && runs[start - 1] < module * 3) return null;
+
+  let position = start + 3;
+  let code = '';
+  let parity = '';
+
+  for (let i = 0; i < leftDigits; i++) {
+    const match = matchDigit(runs.slice(position, position + 4), leftDigits === 6 ? LG_PATTERNS : L_PATTERNS);
+    if (match === -1) return null;
+    code += match % 10;
+    parity += match < 10 ? 'L' : 'G';
+    position += 4;
+  }
+
+  if (!isGuard(runs.slice(position, position + 5), module)) return null;
+  position += 5;
+
+  for (let i = 0; i < leftDigits; i++) {
+    const digit = matchDigit(runs.slice(position, position + 4), L_PATTERNS);
+    if (digit === -1) return null;
+    code += digit;
+    position += 4;
+  }
+
+  if (!isGuard(runs.slice(position, position + 3), module)) return null;
+
+  if (leftDigits === 6) {
+    const first = FIRST_DIGIT_PARITY.indexOf(parity);
+    if (first === -1) return null;
+    code = `${first}${code}`;
+  }
+
+  return hasValidCheckDigit(code) ? code : null;
+};
+
+// Run lengths of alternating light/dark pixels, starting with light
+const toRuns = (line: Uint8ClampedArray) => {
+  let min = 255;
+  let max = 0;
+  for (const value of line) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (max - min < 40) return [];
+
+  const threshold = (min + max) / 2;
+  const runs: number[] = [];
+  let dark = false;
+  let length = 0;
+  for (const value of line) {
+    if (value < threshold !== dark) {
+      runs.push(length);
+      dark = !dark;
+      length = 0;
+    }
+    length++;
+  }
+  runs.push(length);
+  return runs;
+};
+
+const decodeLine = (line: Uint8ClampedArray): string | null => {
+  const forward = toRuns(line);
+  // Upside-down barcodes read the same way once the runs are reversed
+  for (const runs of [forward, [...forward].reverse()]) {
+    // Odd indexes are dark runs when the list starts with light
+    const firstBar = runs === forward ? 1 : forward.length % 2 === 0 ? 0 : 1;
+    for (let start = firstBar; start < runs.length; start += 2) {
+      const code = decodeAt(runs, start, 6) ?? decodeAt(runs, start, 4);
+      if (code) return code;
+    }
+  }
+  return null;
+};
+
+const toGray = (source: CanvasImageSource, width: number, height: number) => {
+  const scale = Math.min(1, MAX_SIDE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return { gray, width: canvas.width, height: canvas.height };
+};
+
+// Scans evenly spaced rows, then columns for barcodes printed sideways
+const scanBarcode = (source: CanvasImageSource, width: number, height: number): string | null => {
+  const image = toGray(source, width, height);
+
+  for (let i = 1; i <= SCANLINES; i++) {
+    const y = Math.floor((image.height * i) / (SCANLINES + 1));
+    const code = decodeLine(image.gray.subarray(y * image.width, (y + 1) * image.width));
+    if (code) return normalizeBarcode(code);
+  }
+
+  const column = new Uint8ClampedArray(image.height);
+  for (let i = 1; i <= SCANLINES; i++) {
+    const x = Math.floor((image.width * i) / (SCANLINES + 1));
+    for (let y = 0; y < image.height; y++) column[y] = image.gray[y * image.width + x];
+    const code = decodeLine(column);
+    if (code) return normalizeBarcode(code);
+  }
+
+  return null;
+};
+
+export const decodeBarcode = async (
+  source: CanvasImageSource,
+  width: number,
+  height: number
+): Promise<string | null> => {
+  const detector = getNativeDetector();
+  if (detector) {
+    try {
+      for (const { rawValue } of await detector.detect(source)) {
+        const code = normalizeBarcode(rawValue);
+        if (code) return code;
+      }
+      return null;
+    } catch (error) {
+      console.error('Barcode detection error:', error);
+    }
+  }
+  return scanBarcode(source, width, height);
+};
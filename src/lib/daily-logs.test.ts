@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { deleteLoggedFood, FoodLogInput, logFood, updateLoggedFood } from './daily-logs';
+import { repository } from './repositories';
+
+// The whole logging flow runs against the in-memory backend, which mirrors
+// what the database does with totals, defaults and foreign keys
+vi.mock('./repositories', async () => {
+  const { createMemoryRepository, LOCAL_USER_ID } = await import('./repositories/memory');
+  return { createMemoryRepository, LOCAL_USER_ID, repository: createMemoryRepository() };
+});
+
+const yogurt = (date: string, quantity = 1): FoodLogInput => ({
+  date,
+  entry: {
+    food_name: 'Greek Yogurt',
+    food_brand: 'Chobani',
+    quantity,
+    calories: 100 * quantity,
+    protein: 15 * quantity,
+    carbs: 6 * quantity,
+    fat: 0,
+  },
+  food: {
+    name: 'Greek Yogurt',
+    brand: 'Chobani',
+    calories_per_serving: 100,
+    protein_per_serving: 15,
+    carbs_per_serving: 6,
+    fat_per_serving: 0,
+  },
+  barcode: '0818290011978',
+});
+
+const dayOf = async (date: string) => {
+  const log = await repository.logs.findByDate(await repository.currentUserId(), date);
+  return { log, entries: log ? await repository.entries.listForLog(log.id) : [] };
+};
+
+describe('logging food', () => {
+  it('adds the entry to the day, saves the food and remembers the barcode', async () => {
+    const entry = await logFood(yogurt('2026-10-01', 2));
+    const { log, entries } = await dayOf('2026-10-01');
+
+    expect(entries.map((e) => e.id)).toEqual([entry.id]);
+    expect(log.total_calories).toBe(200);
+    expect(log.total_protein).toBe(30);
+
+    const food = await repository.foods.get(entry.food_id);
+    expect(food).toMatchObject({ name: 'Greek Yogurt', brand: 'Chobani', calories_per_serving: 100 });
+    expect(await repository.products.find(log.user_id, '0818290011978')).toMatchObject({ food: { id: food.id } });
+  });
+
+  it('links every log of a food picked from the library to that food', async () => {
+    const banana = (date: string): FoodLogInput => ({
+      date,
+      entry: { food_name: 'Banana', calories: 105 },
+      food: { name: 'Banana', calories_per_serving: 105 },
+    });
+    const first = await logFood(banana('2026-10-05'));
+    const foods = await repository.foods.list(first.user_id);
+
+    const input = banana('2026-10-05');
+    const second = await logFood({ ...input, food: { ...input.food, id: first.food_id, calories_per_serving: 110 } });
+
+    expect(second.food_id).toBe(first.food_id);
+    expect(await repository.foods.list(first.user_id)).toHaveLength(foods.length);
+    expect(await repository.foods.get(first.food_id)).toMatchObject({ calories_per_serving: 110 });
+  });
+
+  it('moves an edited entry to its new day and updates both totals', async () => {
+    const entry = await logFood(yogurt('2026-10-02'));
+    await logFood(yogurt('2026-10-02'));
+
+    await updateLoggedFood(entry.id, yogurt('2026-10-03', 3));
+
+    const from = await dayOf('2026-10-02');
+    const to = await dayOf('2026-10-03');
+    expect(from.log.total_calories).toBe(100);
+    expect(to.entries.map((e) => e.id)).toEqual([entry.id]);
+    expect(to.log.total_calories).toBe(300);
+    expect(to.log.total_carbs).toBe(18);
+  });
+
+  it('takes a deleted entry off the day', async () => {
+    const entry = await logFood(yogurt('2026-10-04'));
+
+    await deleteLoggedFood(entry.id);
+
+    const { log, entries } = await dayOf('2026-10-04');
+    expect(entries).toEqual([]);
+    expect(log.total_calories).toBe(0);
+    expect(log.total_protein).toBe(0);
+  });
+});
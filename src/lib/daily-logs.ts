@@ -0,0 +1,165 @@
+import { TablesInsert } from '@/integrations/supabase/types';
+import { NutritionData } from '@/types/nutrition';
+import { toDateKey } from './dates';
+import { entryColumn, fromColumns, NUTRIENT_KEYS } from './nutrients';
+import { saveProduct } from './products';
+import { recalculateRecipesUsing } from './recipes';
+import { FoodEntry, repository } from './repositories';
+
+export type { DailyLog, FoodEntry } from './repositories';
+
+// A day as the dashboard shows it
+export interface DayLog {
+  totals: NutritionData;
+  // Newest first
+  entries: FoodEntry[];
+  // Entries with changes the server doesn't have yet, by id. The value is why
+  // the server last turned the change down, or null if it's just waiting.
+  unsynced: Record<string, string | null>;
+}
+
+export const emptyDay: DayLog = { totals: { calories: 0, protein: 0, carbs: 0, fat: 0 }, entries: [], unsynced: {} };
+
+// What the server does to the day's totals, done ahead of time
+const addToTotals = (totals: NutritionData, entry: FoodEntry, sign: 1 | -1): NutritionData => {
+  const values = fromColumns(entry, entryColumn);
+  const updated = { ...totals };
+  for (const key of NUTRIENT_KEYS) {
+    updated[key] = Math.max(0, (totals[key] ?? 0) + sign * (values[key] ?? 0));
+  }
+  return updated;
+};
+
+// Adds the entry to the day, replacing any earlier version of it
+export const withEntry = (day: DayLog = emptyDay, entry: FoodEntry): DayLog => {
+  const rest = withoutEntry(day, entry.id);
+  return {
+    ...rest,
+    totals: addToTotals(rest.totals, entry, 1),
+    entries: [...rest.entries, entry].sort((a, b) => b.created_at.localeCompare(a.created_at)),
+  };
+};
+
+export const withoutEntry = (day: DayLog = emptyDay, id: string): DayLog => {
+  const entry = day.entries.find((e) => e.id === id);
+  if (!entry) return day;
+  return {
+    ...day,
+    totals: addToTotals(day.totals, entry, -1),
+    entries: day.entries.filter((e) => e.id !== id),
+  };
+};
+
+// Everything logging a food writes: the entry on a day, and the food to save
+// to the library first (with the barcode it was scanned from) when there is one.
+// A food with an id is one already in the library, updated in place; without
+// one it's saved as new, or over the food with the same name and brand.
+export interface FoodLogInput {
+  // daily_logs.date the entry goes on
+  date: string;
+  entry: Omit<TablesInsert<'food_entries'>, 'daily_log_id' | 'user_id'>;
+  food?: Omit<TablesInsert<'foods'>, 'user_id'>;
+  barcode?: string;
+}
+
+// Totals on daily_logs are kept by the backend (a trigger on food_entries in
+// Supabase), so adding, editing or deleting an entry is all it takes to
+// update them
+
+// The log's id; the backend creates the log if the day has none yet
+export const getOrCreateDailyLog = (date: string): Promise<string> => repository.logs.getOrCreate(date);
+
+// Repairs the user's logs whose totals don't match their entries, returning
+// how many were fixed
+export const reconcileDailyLogs = (): Promise<number> => repository.logs.reconcile();
+
+// The food's id, or null when it couldn't be saved; the entry is still logged,
+// just without a link to the library
+const saveLibraryFood = async (userId: string, { id, ...food }: FoodLogInput['food'], barcode?: string) => {
+  let foodId: string;
+  try {
+    // Brandless foods never clash on name and brand, so matching them up is
+    // left to the id
+    ({ id: foodId } = id
+      ? await repository.foods.update(id, food)
+      : await repository.foods.upsert({ ...food, user_id: userId }));
+  } catch (error) {
+    console.error('Error saving food:', error);
+    return null;
+  }
+
+  try {
+    await recalculateRecipesUsing(foodId);
+  } catch (error) {
+    console.error('Error updating recipes:', error);
+  }
+
+  // Remember the barcode so the next scan of this package skips OCR
+  if (barcode) {
+    try {
+      await saveProduct(userId, barcode, foodId);
+    } catch (error) {
+      console.error('Error saving barcode:', error);
+    }
+  }
+
+  return foodId;
+};
+
+const prepareEntry = async ({ date, entry, food, barcode }: FoodLogInput) => {
+  const userId = await repository.currentUserId();
+  if (!userId) throw new Error('Not signed in');
+
+  const foodId = food ? await saveLibraryFood(userId, food, barcode) : entry.food_id;
+  const dailyLogId = await getOrCreateDailyLog(date);
+  return { ...entry, food_id: foodId ?? null, daily_log_id: dailyLogId, user_id: userId };
+};
+
+export const logFood = async (input: FoodLogInput): Promise<FoodEntry> =>
+  repository.entries.insert(await prepareEntry(input));
+
+// Rewrites an entry, moving it to input.date if that's a different day
+export const updateLoggedFood = async (id: string, input: FoodLogInput): Promise<FoodEntry> => {
+  // The entry keeps its owner; only the contents and day change
+  const { user_id: _, ...changes } = await prepareEntry(input);
+  return repository.entries.update(id, changes);
+};
+
+export const deleteLoggedFood = (id: string) => repository.entries.remove(id);
+
+// Entries logged before time zones were tracked were filed under the UTC
+// date, so an evening meal west of UTC landed on the next day. Moves each of
+// them to the day it was eaten in the given zone and records the zone.
+// Returns how many entries moved.
+//
+// This writes to the server directly rather than through the outbox, so
+// entries with changes still queued on the device are passed as skip and
+// left for next time; refiling them would make those changes look like
+// they'd been made against an older version.
+export const refileLegacyEntries = async (userId: string, timeZone: string, skip: string[] = []): Promise<number> => {
+  const entries = (await repository.entries.listWithoutTimeZone(userId)).filter((e) => !skip.includes(e.id));
+  if (!entries.length) return 0;
+
+  const logs = new Map<string, string>();
+  let moved = 0;
+
+  for (const entry of entries) {
+    const eatenAt = new Date(entry.created_at);
+    const filedUnder = entry.date;
+    const eatenOn = toDateKey(eatenAt, timeZone);
+    // Only entries filed by the old UTC rule; ones logged to another day on
+    // purpose have nothing to do with when they were created
+    const misfiled = filedUnder === toDateKey(eatenAt, 'UTC') && filedUnder !== eatenOn;
+
+    let dailyLogId = entry.daily_log_id;
+    if (misfiled) {
+      if (!logs.has(eatenOn)) logs.set(eatenOn, await getOrCreateDailyLog(eatenOn));
+      dailyLogId = logs.get(eatenOn);
+      moved++;
+    }
+
+    await repository.entries.update(entry.id, { daily_log_id: dailyLogId, time_zone: timeZone });
+  }
+
+  return moved;
+};
@@ -0,0 +1,40 @@
+import { addDays, format, parseISO } from 'date-fns';
+
+// Dates are keyed like daily_logs.date ("2026-10-18"). Which key an instant
+// gets depends on the time zone it's seen from.
+
+export const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const partsIn = (instant: Date, timeZone: string, options: Intl.DateTimeFormatOptions) =>
+  Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', ...options })
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value])
+  );
+
+// The calendar day an instant falls on in the zone, DST included
+export const toDateKey = (instant: Date, timeZone: string) => {
+  const { year, month, day } = partsIn(instant, timeZone, { year: 'numeric', month: '2-digit', day: '2-digit' });
+  return `${year}-${month}-${day}`;
+};
+
+// Hours since midnight in the zone, e.g. 18.5 for 6:30 pm
+export const hourIn = (instant: Date, timeZone: string) => {
+  const { hour, minute } = partsIn(instant, timeZone, { hour: '2-digit', minute: '2-digit' });
+  return Number(hour) + Number(minute) / 60;
+};
+
+export const todayKey = (timeZone: string) => toDateKey(new Date(), timeZone);
+
+// Calendar widgets work with local midnights; these convert to and from them
+export const fromDateKey = (key: string) => parseISO(key);
+
+export const calendarDayKey = (day: Date) => format(day, 'yyyy-MM-dd');
+
+export const shiftDateKey = (key: string, days: number) => calendarDayKey(addDays(fromDateKey(key), days));
+
+// Every zone the browser knows, falling back to just the device's own
+export const listTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf?.('timeZone') ?? [deviceTimeZone()];
+};
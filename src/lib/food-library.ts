@@ -0,0 +1,104 @@
+import { TablesUpdate } from '@/integrations/supabase/types';
+import { Food } from './products';
+import { recalculateRecipesUsing } from './recipes';
+import { repository } from './repositories';
+
+// Foods matching the text are fetched first, then ranked by how the user logs them
+const CANDIDATES = 50;
+// A use this many days ago counts half as much as one today
+const RECENCY_HALF_LIFE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FoodMatch {
+  food: Food;
+  // Entries logged with this food
+  uses: number;
+  lastUsed?: string;
+}
+
+// Characters that mean something inside a PostgREST or() filter or an ilike pattern
+const toSearchWords = (query: string) =>
+  query.replace(/[%_*,()\\."]/g, ' ').trim().split(/\s+/).filter(Boolean);
+
+// When each food was logged, newest first. Without ids, covers every food
+// the user has logged.
+const loadUsage = async (foodIds?: string[]) => {
+  const usedAt = new Map<string, string[]>();
+  for (const entry of await repository.entries.listFoodUses(foodIds)) {
+    usedAt.set(entry.food_id, [...(usedAt.get(entry.food_id) ?? []), entry.created_at]);
+  }
+  return usedAt;
+};
+
+const toMatch = (food: Food, usedAt: string[] = []): FoodMatch => ({
+  food,
+  uses: usedAt.length,
+  lastUsed: usedAt[0],
+});
+
+const usageScore = (usedAt: string[], now: number) =>
+  usedAt.reduce((score, date) => score + 0.5 ** ((now - Date.parse(date)) / DAY_MS / RECENCY_HALF_LIFE_DAYS), 0);
+
+// Every word has to appear in the name or the brand, so "greek chobani" finds
+// Greek Yogurt by Chobani
+export const searchFoods = async (query: string, limit = 8): Promise<FoodMatch[]> => {
+  const words = toSearchWords(query);
+  if (words.length === 0) return [];
+
+  const userId = await repository.currentUserId();
+  if (!userId) return [];
+
+  const foods = await repository.foods.search(userId, words, CANDIDATES);
+  if (!foods.length) return [];
+
+  const usedAt = await loadUsage(foods.map((food) => food.id));
+  const now = Date.now();
+  const prefix = words[0].toLowerCase();
+  return foods
+    .map((food) => {
+      const dates = usedAt.get(food.id) ?? [];
+      return {
+        match: toMatch(food, dates),
+        score: usageScore(dates, now),
+        startsWith: food.name.toLowerCase().startsWith(prefix),
+      };
+    })
+    .sort((a, b) =>
+      b.score - a.score ||
+      Number(b.startsWith) - Number(a.startsWith) ||
+      a.match.food.name.localeCompare(b.match.food.name)
+    )
+    .slice(0, limit)
+    .map(({ match }) => match);
+};
+
+export const listFoods = async (): Promise<FoodMatch[]> => {
+  const userId = await repository.currentUserId();
+  if (!userId) return [];
+
+  const foods = await repository.foods.list(userId);
+  const usedAt = await loadUsage();
+  return foods.map((food) => toMatch(food, usedAt.get(food.id)));
+};
+
+export const updateFood = async (id: string, changes: TablesUpdate<'foods'>) => {
+  const food = await repository.foods.update(id, changes);
+  await recalculateRecipesUsing(id);
+  return food;
+};
+
+// Logged entries keep their copied-in values; they just stop pointing at the food
+export const deleteFoods = (ids: string[]) => repository.foods.remove(ids);
+
+// Moves entries, barcodes and recipe ingredients from the duplicates onto the
+// kept food, then deletes the duplicates
+export const mergeFoods = async (keepId: string, duplicateIds: string[]) => {
+  const ids = duplicateIds.filter((id) => id !== keepId);
+  if (ids.length === 0) return;
+
+  await repository.foods.merge(keepId, ids);
+  await recalculateRecipesUsing(keepId);
+};
+
+// "Greek Yogurt" and "greek yogurt " with any brands are likely the same food
+export const duplicateKey = (food: Food) => food.name.trim().toLowerCase().replace(/\s+/g, ' ');
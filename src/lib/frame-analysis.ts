@@ -0,0 +1,60 @@
+// Cheap per-frame checks for the camera viewfinder, run on a small grayscale
+// copy of the area inside the framing guide.
+
+export const isCameraSupported = () => !!navigator.mediaDevices?.getUserMedia;
+
+export interface FrameSample {
+  gray: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export const sampleFrame = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  region: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number
+): FrameSample => {
+  ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return { gray, width, height };
+};
+
+// Variance of the Laplacian: high when there are crisp edges (in-focus text),
+// low when the frame is blurred
+export const measureSharpness = ({ gray, width, height }: FrameSample) => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+// Mean absolute brightness change between two frames; near 0 when the phone
+// and label are holding still
+export const measureMotion = (previous: FrameSample, current: FrameSample) => {
+  if (previous.gray.length !== current.gray.length) return Infinity;
+
+  let total = 0;
+  for (let i = 0; i < current.gray.length; i++) {
+    total += Math.abs(current.gray[i] - previous.gray[i]);
+  }
+  return total / current.gray.length;
+};
@@ -0,0 +1,237 @@
+// Canvas-based cleanup of label photos before OCR. Everything runs locally in
+// the browser; Tesseract reads high-contrast, level, black-on-white text best.
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  // In natural image pixels
+  crop?: CropRect;
+  grayscale?: boolean;
+  normalizeContrast?: boolean;
+  threshold?: boolean;
+  deskew?: boolean;
+  upscale?: boolean;
+}
+
+export interface PreprocessResult {
+  canvas: HTMLCanvasElement;
+  // Degrees the image was rotated to level the text
+  angle: number;
+  scale: number;
+}
+
+// Tesseract wants text around 20-30 px tall; label photos cropped to the
+// panel are often far smaller than that
+const TARGET_MIN_SIDE = 1600;
+const MAX_UPSCALE = 3;
+// Keeps phone camera photos from allocating huge canvases
+const MAX_SIDE = 3200;
+const MAX_SKEW_DEGREES = 15;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = src;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const context2d = (canvas: HTMLCanvasElement) =>
+  canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D;
+
+const scaleFor = (width: number, height: number, upscale: boolean) => {
+  const minSide = Math.min(width, height);
+  const maxSide = Math.max(width, height);
+  let scale = upscale && minSide < TARGET_MIN_SIDE ? Math.min(TARGET_MIN_SIDE / minSide, MAX_UPSCALE) : 1;
+  if (maxSide * scale > MAX_SIDE) scale = MAX_SIDE / maxSide;
+  return scale;
+};
+
+// Luma, written back into every channel. Returns a single-channel copy too.
+export const toGrayscale = (image: ImageData): Uint8ClampedArray => {
+  const { data } = image;
+  const gray = new Uint8ClampedArray(image.width * image.height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const value = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    gray[p] = value;
+    data[i] = data[i + 1] = data[i + 2] = value;
+  }
+  return gray;
+};
+
+// Stretches the 1st-99th percentile of brightness to the full range, which
+// rescues dim and washed-out photos
+export const normalizeContrast = (gray: Uint8ClampedArray) => {
+  const histogram = new Array(256).fill(0);
+  for (const value of gray) histogram[value]++;
+
+  const cutoff = gray.length * 0.01;
+  let low = 0;
+  let high = 255;
+  for (let count = 0; low < 255 && count + histogram[low] < cutoff; low++) count += histogram[low];
+  for (let count = 0; high > 0 && count + histogram[high] < cutoff; high--) count += histogram[high];
+  if (high <= low) return;
+
+  const range = high - low;
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = ((gray[i] - low) * 255) / range;
+  }
+};
+
+// Bradley-Roth adaptive threshold: each pixel is compared with the mean of
+// its neighbourhood, so glare and shadows across the panel don't wipe out text
+export const adaptiveThreshold = (gray: Uint8ClampedArray, width: number, height: number) => {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(4, Math.floor(Math.max(width, height) / 32));
+  const sensitivity = 0.15;
+  const output = new Uint8ClampedArray(gray.length);
+
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - half);
+    const y2 = Math.min(height - 1, y + half);
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - half);
+      const x2 = Math.min(width - 1, x + half);
+      const area = (x2 - x1 + 1) * (y2 - y1 + 1);
+      const sum =
+        integral[(y2 + 1) * (width + 1) + x2 + 1] -
+        integral[y1 * (width + 1) + x2 + 1] -
+        integral[(y2 + 1) * (width + 1) + x1] +
+        integral[y1 * (width + 1) + x1];
+      output[y * width + x] = gray[y * width + x] * area < sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+
+  return output;
+};
+
+const writeGray = (image: ImageData, gray: Uint8ClampedArray) => {
+  const { data } = image;
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    data[i] = data[i + 1] = data[i + 2] = gray[p];
+    data[i + 3] = 255;
+  }
+};
+
+// Projection-profile deskew: text lines are level when the dark pixels per
+// row are most "peaky". Tries angles on a small copy of the image.
+export const detectSkew = (canvas: HTMLCanvasElement): number => {
+  const sampleScale = Math.min(1, 400 / Math.max(canvas.width, canvas.height));
+  const width = Math.round(canvas.width * sampleScale);
+  const height = Math.round(canvas.height * sampleScale);
+  const sample = createCanvas(width, height);
+  const ctx = context2d(sample);
+
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += 0.5) {
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate((-angle * Math.PI) / 180);
+    ctx.drawImage(canvas, -width / 2, -height / 2, width, height);
+    ctx.restore();
+
+    const { data } = ctx.getImageData(0, 0, width, height);
+    let score = 0;
+    let previous = 0;
+    for (let y = 0; y < height; y++) {
+      let dark = 0;
+      for (let x = 0; x < width; x++) {
+        if (data[(y * width + x) * 4] < 128) dark++;
+      }
+      score += (dark - previous) ** 2;
+      previous = dark;
+    }
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+};
+
+const rotate = (canvas: HTMLCanvasElement, angle: number) => {
+  const radians = (-angle * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const rotated = createCanvas(canvas.width * cos + canvas.height * sin, canvas.width * sin + canvas.height * cos);
+  const ctx = context2d(rotated);
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, rotated.width, rotated.height);
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return rotated;
+};
+
+export const preprocessImage = (
+  image: HTMLImageElement | HTMLCanvasElement,
+  options: PreprocessOptions = {}
+): PreprocessResult => {
+  const {
+    crop,
+    grayscale = true,
+    normalizeContrast: normalize = true,
+    threshold = true,
+    deskew = true,
+    upscale = true,
+  } = options;
+
+  const source = crop ?? { x: 0, y: 0, width: image.width, height: image.height };
+  const scale = scaleFor(source.width, source.height, upscale);
+
+  let canvas = createCanvas(source.width * scale, source.height * scale);
+  let ctx = context2d(canvas);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, source.x, source.y, source.width, source.height, 0, 0, canvas.width, canvas.height);
+
+  if (!grayscale && !threshold) return { canvas, angle: 0, scale };
+
+  let pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let gray = toGrayscale(pixels);
+  if (normalize) normalizeContrast(gray);
+  writeGray(pixels, gray);
+  ctx.putImageData(pixels, 0, 0);
+
+  let angle = 0;
+  if (deskew) {
+    angle = detectSkew(canvas);
+    if (angle !== 0) {
+      canvas = rotate(canvas, angle);
+      ctx = context2d(canvas);
+      pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      gray = toGrayscale(pixels);
+    }
+  }
+
+  if (threshold) {
+    writeGray(pixels, adaptiveThreshold(gray, canvas.width, canvas.height));
+    ctx.putImageData(pixels, 0, 0);
+  }
+
+  return { canvas, angle, scale };
+};
@@ -0,0 +1,68 @@
+import { Allergen } from '@/types/nutrition';
+import { termPattern } from './languages';
+
+// Ingredient words that give an allergen away, in all supported languages.
+// Lookbehinds skip the usual non-dairy "butters" and "milks"; a leading \w*
+// catches German compounds such as "Magermilchpulver".
+const ALLERGEN_TERMS: Record<Allergen, string[]> = {
+  milk: [
+    '(?<!(?:coconut|almond|soy|soya|oat|rice)\\s)milk', 'whey', 'casein(?:ates?)?', '(?<!(?:cocoa|peanut|shea|nut)\\s)butter',
+    'cream(?!\\s*of\\s*tartar)', 'cheese', 'lactose', 'yogh?urt', 'ghee',
+    'lait', 'beurre', 'cr[èe]me', 'fromage', 'lactos[ée]rum',
+    'leche', 'mantequilla', 'nata', 'queso', 'suero\\s*de\\s*leche',
+    '\\w*milch\\w*', '\\w*sahne', '\\w*k[äa]se', '\\w*molke\\w*',
+    'latte', 'burro', 'panna', 'formaggio', 'siero\\s*di\\s*latte',
+  ],
+  egg: [
+    'eggs?', 'albumin', 'mayonnaise',
+    '[œo]e?ufs?',
+    'huevos?',
+    'eier?', 'h[üu]hnerei\\w*',
+    'uova', 'uovo',
+  ],
+  peanut: [
+    'peanuts?', 'groundnuts?', 'arachis',
+    'arachides?', 'cacahu[èe]tes?',
+    'cacahuetes?', 'man[íi]',
+    'erdn[üu]ss?\\w*',
+    'arachidi',
+  ],
+  treeNut: [
+    'tree\\s*nuts?', 'almonds?', 'hazelnuts?', 'walnuts?', 'cashews?', 'pecans?', 'pistachios?',
+    'brazil\\s*nuts?', 'macadamias?(?:\\s*nuts?)?',
+    'amandes?', 'noisettes?', 'noix(?!\\s*de\\s*coco)',
+    'almendras?', 'avellanas?', 'nueces',
+    'mandeln?', 'haseln[üu]ss?\\w*', 'waln[üu]ss?\\w*', 'cashewn[üu]ss?\\w*', 'pistazien',
+    'mandorle', 'nocciole', 'noci', 'pistacchi',
+  ],
+  soy: ['soy', 'soya', 'soybeans?', 'tofu', 'edamame', 'soja', 'soia'],
+  wheat: [
+    'wheat', 'spelt', 'semolina', 'durum', 'farina', 'kamut',
+    'bl[ée]', 'froment', '[ée]peautre',
+    'trigo', 'espelta', 's[ée]mola',
+    '\\w*weizen\\w*', 'dinkel\\w*',
+    'frumento', 'grano', 'farro', 'semola',
+  ],
+  fish: [
+    'fish', 'anchov(?:y|ies)', 'cod', 'salmon', 'tuna', 'pollock', 'haddock', 'sardines?', 'tilapia',
+    'poissons?', 'anchois', 'thon', 'saumon', 'cabillaud',
+    'pescados?', 'anchoas?', 'at[úu]n', 'salm[óo]n', 'bacalao',
+    'fisch\\w*', 'sardellen', 'thunfisch', 'lachs',
+    'pesce', 'acciughe', 'tonno', 'salmone', 'merluzzo',
+  ],
+  shellfish: [
+    'shellfish', 'shrimps?', 'prawns?', 'crabs?', 'lobsters?', 'crayfish', 'crustaceans?',
+    'crevettes?', 'crabes?', 'homards?', 'crustac[ée]s',
+    'gambas?', 'camarones?', 'cangrejos?', 'langostas?', 'crust[áa]ceos',
+    'garnelen', 'krabben?', 'hummer', 'krebstiere\\w*',
+    'gamberi', 'granchio', 'aragosta', 'crostacei',
+  ],
+  sesame: ['sesame', 'tahin[ia]', 's[ée]same', 's[ée]samo', 'sesam'],
+};
+
+const ALLERGEN_PATTERNS = Object.entries(ALLERGEN_TERMS).map(
+  ([allergen, terms]) => [allergen as Allergen, new RegExp(termPattern(terms), 'i')] as const
+);
+
+export const detectAllergens = (text: string): Allergen[] =>
+  ALLERGEN_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(([allergen]) => allergen);
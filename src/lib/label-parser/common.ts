@@ -0,0 +1,40 @@
+import { LabelLanguage, ParsedNutrition, TextSpan } from '@/types/nutrition';
+
+// Below this a value is shown to the user as "please check"
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const NUMBER = '(\\d+(?:[.,]\\d+)?)';
+
+// "<1g", "< 0.5 g", "less than 1g"; OCR often turns "<" into a guillemet
+export const LESS_THAN = '(?:(<|‹|«|less\\s*than)\\s*)?';
+
+// "3,5 g" is 3.5 on European labels, while "1,200 mg" on an English one is 1200
+export const parseNumber = (text: string, language: LabelLanguage = 'en') =>
+  parseFloat(language === 'en' && /,\d{3}$/.test(text) ? text.replace(',', '') : text.replace(',', '.'));
+
+export const spanOf = (match: RegExpMatchArray, offset = 0): TextSpan => {
+  const text = match[0].trim();
+  const start = match.index + offset;
+  return { text, start, end: start + text.length };
+};
+
+// Protein and carbs give ~4 kcal/g and fat ~9 kcal/g. When the macros don't
+// add up to the calories on the label one of the four numbers is likely misread.
+export const crossCheckEnergy = (nutrients: ParsedNutrition) => {
+  const { calories, protein, carbs, fat } = nutrients;
+  if (!calories || !protein || !carbs || !fat) return;
+
+  const estimated = protein.value * 4 + carbs.value * 4 + fat.value * 9;
+  const larger = Math.max(calories.value, estimated);
+  if (larger === 0 || Math.abs(calories.value - estimated) / larger <= 0.25) return;
+
+  for (const nutrient of [calories, protein, carbs, fat]) {
+    nutrient.confidence -= 0.2;
+  }
+};
+
+export const clampConfidence = (nutrients: ParsedNutrition) => {
+  for (const nutrient of Object.values(nutrients)) {
+    nutrient.confidence = Math.round(Math.min(1, Math.max(0, nutrient.confidence)) * 100) / 100;
+  }
+};
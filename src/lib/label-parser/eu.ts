@@ -0,0 +1,270 @@
+import {
+  ColumnBasis,
+  LabelColumn,
+  LabelLanguage,
+  NutrientKey,
+  ParsedNutrient,
+  ParsedNutrition,
+  ParsedServing,
+  ServingUnit,
+  TextSpan,
+} from '@/types/nutrition';
+import { clampConfidence, crossCheckEnergy, LESS_THAN, NUMBER, parseNumber } from './common';
+import { LANGUAGES, LanguageTerms, termPattern } from './languages';
+import { findServing } from './serving';
+
+interface EuRule {
+  key: NutrientKey;
+  labels: string[];
+  unit: string;
+  // Converts a row value in `from` units into the NutritionData unit
+  convert?: (value: number, from: string) => number;
+  // Largest plausible value per 100 g
+  max: number;
+}
+
+const toMilligrams = (value: number, from: string) => (from === 'mg' ? value : value * 1000);
+
+// Salt is sodium chloride; EU labels declare salt = sodium x 2.5
+const saltToSodium = (value: number, from: string) => toMilligrams(value, from) / 2.5;
+
+// Rows that are plain grams in every language; salt is handled separately
+const GRAM_ROWS: NutrientKey[] = ['fat', 'saturatedFat', 'carbs', 'sugar', 'fiber', 'protein'];
+
+// Labels sold across Europe often repeat the table in English, so English
+// wording is always accepted alongside the label's own language
+const languageTerms = (language: LabelLanguage): LanguageTerms[] =>
+  language === 'en' ? [LANGUAGES.en] : [LANGUAGES[language], LANGUAGES.en];
+
+const euRules = (terms: LanguageTerms[]): EuRule[] => [
+  ...GRAM_ROWS.map((key) => ({
+    key,
+    labels: terms.flatMap((t) => t.nutrients[key] ?? []),
+    unit: 'g',
+    max: 100,
+  })),
+  { key: 'sodium', labels: terms.flatMap((t) => t.salt), unit: 'mg', convert: saltToSodium, max: 40000 },
+];
+
+const KJ_PER_KCAL = 4.184;
+
+interface RowValue {
+  value: number;
+  unit?: string;
+  span: TextSpan;
+  lessThan?: boolean;
+}
+
+// Numbers in a table row with the unit printed next to them. A unit printed
+// on its own ("kcal 250 125") applies to the bare numbers that follow it.
+const rowValues = (text: string, start: number, end: number, language: LabelLanguage): RowValue[] => {
+  const values: RowValue[] = [];
+  const row = text.slice(start, end);
+  // Groups: 1 "<", 2 number, 3 unit, 4 unit printed on its own
+  const token = new RegExp(`${LESS_THAN}${NUMBER}[ \\t]*(kj|kcal|mg|mcg|µg|g|ml)?(?![a-zµ])|\\b(kj|kcal)\\b`, 'gi');
+  let leadingUnit: string | undefined;
+
+  for (const match of row.matchAll(token)) {
+    if (match[4]) {
+      leadingUnit = match[4].toLowerCase();
+      continue;
+    }
+    // %RI / %DV columns aren't amounts
+    const after = row.slice(match.index + match[0].length);
+    if (/^\s*%/.test(after)) continue;
+
+    const text = match[0].trim();
+    values.push({
+      value: parseNumber(match[2], language),
+      unit: match[3]?.toLowerCase() ?? leadingUnit,
+      span: { text, start: start + match.index, end: start + match.index + text.length },
+      ...(match[1] && { lessThan: true }),
+    });
+  }
+
+  return values;
+};
+
+// A row is the rest of the label's line, plus the next line when that line
+// holds nothing but numbers (OCR often wraps "1046kJ / 250kcal")
+const findRow = (text: string, labels: string[]) => {
+  if (labels.length === 0) return undefined;
+  const label = new RegExp(termPattern(labels), 'i').exec(text);
+  if (!label) return undefined;
+
+  const start = label.index + label[0].length;
+  let end = text.indexOf('\n', start);
+  if (end === -1) return { start, end: text.length };
+
+  const nextEnd = text.indexOf('\n', end + 1);
+  const nextLine = text.slice(end + 1, nextEnd === -1 ? text.length : nextEnd);
+  const withoutUnits = nextLine.replace(/\d\s*(kj|kcal|mg|g)\b|\b(kj|kcal)\b/gi, '');
+  if (/\d/.test(nextLine) && !/[a-z]/i.test(withoutUnits)) {
+    end = nextEnd === -1 ? text.length : nextEnd;
+  }
+
+  return { start, end };
+};
+
+interface ColumnHeading {
+  basis: ColumnBasis;
+  span?: TextSpan;
+  amount?: number;
+  unit?: ServingUnit;
+}
+
+const WEIGHT = /(\d+(?:[.,]\d+)?)\s*(g|ml)\b/i;
+
+// "Per 100g | Per portion (30g) | %RI" — each "per ..." up to the next one is a column
+const findHeadings = (text: string, terms: LanguageTerms[], language: LabelLanguage): ColumnHeading[] => {
+  const headings: ColumnHeading[] = [];
+  const per = termPattern(terms.flatMap((t) => t.per));
+  const portion = new RegExp(`${terms.flatMap((t) => t.portion).join('|')}|\\d+\\s*(g|ml)\\b`, 'i');
+  // "servings per pack" is a serving count, not a column
+  const column = new RegExp(`(?<!servings?\\s{0,3})${per}[^\\n]*?(?=${per}|%|\\n|$)`, 'gi');
+
+  for (const match of text.matchAll(column)) {
+    const heading = match[0].trim();
+    const span = { text: heading, start: match.index, end: match.index + heading.length };
+    const weight = heading.match(WEIGHT);
+    const unit = weight?.[2].toLowerCase() as ServingUnit | undefined;
+
+    if (new RegExp(`^${per}\\s*100\\s*(g|ml)\\b`, 'i').test(heading)) {
+      headings.push({ basis: 'per100', span, amount: 100, unit });
+    } else if (portion.test(heading)) {
+      const amount = weight ? parseNumber(weight[1], language) : undefined;
+      headings.push({ basis: 'portion', span, amount, unit });
+    }
+  }
+
+  return headings;
+};
+
+const defaultHeadings = (valueCount: number): ColumnHeading[] => {
+  const per100: ColumnHeading = { basis: 'per100', amount: 100, unit: 'g' };
+  return valueCount > 1 ? [per100, { basis: 'portion' }] : [per100];
+};
+
+const energyNutrient = (values: RowValue[], column: number, columnCount: number): ParsedNutrient | undefined => {
+  const kcal = values.filter((v) => v.unit === 'kcal');
+  const kj = values.filter((v) => v.unit === 'kj');
+
+  if (kcal[column]) {
+    const { value, span } = kcal[column];
+    return { value, unit: 'kcal', match: span, confidence: kcal.length === columnCount ? 0.9 : 0.7 };
+  }
+  if (kj[column]) {
+    const { value, span } = kj[column];
+    return { value: Math.round(value / KJ_PER_KCAL), unit: 'kcal', match: span, confidence: 0.7 };
+  }
+  return undefined;
+};
+
+const ruleNutrient = (rule: EuRule, values: RowValue[], column: number, columnCount: number): ParsedNutrient | undefined => {
+  const amounts = values.filter((v) => !v.unit || ['g', 'mg', 'mcg', 'µg'].includes(v.unit));
+  const found = amounts[column];
+  if (!found) return undefined;
+
+  const unit = found.unit ?? (rule.convert ? 'g' : rule.unit);
+  const value = rule.convert ? rule.convert(found.value, unit) : found.value;
+
+  let confidence = 0.9;
+  if (!found.unit) confidence -= 0.2;
+  if (amounts.length !== columnCount) confidence -= 0.2;
+  if (found.value > rule.max) confidence = 0.3;
+
+  return {
+    value: Math.round(value * 100) / 100,
+    unit: rule.unit,
+    match: found.span,
+    confidence,
+    ...(found.lessThan && { lessThan: true }),
+  };
+};
+
+// The portion column should be the per-100 g column scaled by the portion
+// weight. Values that break that ratio were probably misread.
+const crossCheckColumns = (per100: LabelColumn, portion: LabelColumn) => {
+  const weight = portion.serving.amount;
+  if (!weight) return;
+
+  const expected = weight / 100;
+  for (const [key, nutrient] of Object.entries(portion.nutrients)) {
+    const base = per100.nutrients[key as NutrientKey];
+    if (!base || base.value === 0 || nutrient.value === 0) continue;
+
+    const ratio = nutrient.value / base.value;
+    if (Math.abs(ratio - expected) / expected > 0.15) {
+      nutrient.confidence -= 0.2;
+      base.confidence -= 0.2;
+    }
+  }
+};
+
+export interface EuLabel {
+  nutrients: ParsedNutrition;
+  serving?: ParsedServing;
+  columns: LabelColumn[];
+}
+
+// EU/UK nutrition table: "Typical values | Per 100g | Per portion (30g)"
+export const parseEuLabel = (text: string, language: LabelLanguage = 'en'): EuLabel => {
+  const terms = languageTerms(language);
+  const energyRow = findRow(text, terms.flatMap((t) => t.energy));
+  const energyValues = energyRow ? rowValues(text, energyRow.start, energyRow.end, language) : [];
+  const rows = euRules(terms).map((rule) => {
+    const row = findRow(text, rule.labels);
+    return { rule, values: row ? rowValues(text, row.start, row.end, language) : [] };
+  });
+
+  const widest = Math.max(
+    energyValues.filter((v) => v.unit === 'kcal').length,
+    ...rows.map((r) => r.values.length)
+  );
+  let headings = findHeadings(text, terms, language);
+  if (headings.length === 0) headings = defaultHeadings(widest);
+
+  const labelServing = findServing(text);
+  const columns: LabelColumn[] = headings.map((heading, index) => {
+    const nutrients: ParsedNutrition = {};
+
+    const calories = energyNutrient(energyValues, index, headings.length);
+    if (calories) nutrients.calories = calories;
+
+    for (const { rule, values } of rows) {
+      const nutrient = ruleNutrient(rule, values, index, headings.length);
+      if (nutrient) nutrients[rule.key] = nutrient;
+    }
+
+    const serving = heading.basis === 'per100'
+      ? { amount: 100, unit: heading.unit ?? 'g' }
+      : {
+          householdMeasure: labelServing?.householdMeasure,
+          amount: heading.amount ?? labelServing?.amount,
+          unit: heading.unit ?? labelServing?.unit,
+        };
+
+    return { basis: heading.basis, heading: heading.span, serving, nutrients };
+  });
+
+  const per100 = columns.find((c) => c.basis === 'per100');
+  const portion = columns.find((c) => c.basis === 'portion' && Object.keys(c.nutrients).length > 0);
+  if (per100 && portion) crossCheckColumns(per100, portion);
+  for (const column of columns) {
+    crossCheckEnergy(column.nutrients);
+    clampConfidence(column.nutrients);
+  }
+
+  // Log per portion when the label gives one; otherwise log per 100 g and let
+  // the user enter the weight they ate
+  const chosen = portion ?? per100;
+  if (!chosen) return { nutrients: {}, serving: labelServing, columns };
+
+  const serving: ParsedServing = {
+    ...chosen.serving,
+    servingsPerContainer: labelServing?.servingsPerContainer,
+    matches: [...(chosen.heading ? [chosen.heading] : []), ...(labelServing?.matches ?? [])],
+  };
+
+  return { nutrients: chosen.nutrients, serving, columns };
+};
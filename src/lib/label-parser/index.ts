@@ -0,0 +1,66 @@
+import {
+  LabelFormat,
+  LabelLanguage,
+  LabelParseResult,
+  LabelWord,
+  ParsedNutrient,
+} from '@/types/nutrition';
+import { clampConfidence, crossCheckEnergy, LOW_CONFIDENCE_THRESHOLD } from './common';
+import { parseEuLabel } from './eu';
+import { findIngredients } from './ingredients';
+import { detectLanguage } from './languages';
+import { findServing } from './serving';
+import { parseUsNutrients } from './us';
+import { parseUsDualColumns } from './us-columns';
+
+export { LOW_CONFIDENCE_THRESHOLD };
+export { detectLanguage, LANGUAGES, ocrLanguages } from './languages';
+
+export interface ParseOptions {
+  // 'auto' picks the layout from the label's wording
+  format?: LabelFormat | 'auto';
+  language?: LabelLanguage | 'auto';
+  // Word positions from OCR, used to line values up under column headings
+  words?: LabelWord[];
+}
+
+// kJ, "per 100 g", "of which" and salt only appear on EU/UK style tables, and
+// French, Spanish, German and Italian labels always use the EU layout
+export const detectLabelFormat = (text: string, language: LabelLanguage = 'en'): LabelFormat =>
+  language !== 'en' || /per\s*100\s*(g|ml)\b|\bkj\b|of\s*which|\bsalt\b|\bfibre\b/i.test(text) ? 'eu' : 'us';
+
+export const parseNutritionLabel = (text: string, options: ParseOptions = {}): LabelParseResult => {
+  const language = !options.language || options.language === 'auto' ? detectLanguage(text) : options.language;
+  const format = !options.format || options.format === 'auto' ? detectLabelFormat(text, language) : options.format;
+
+  if (format === 'eu') {
+    const { nutrients, serving, columns } = parseEuLabel(text, language);
+    return { text, format, language, nutrients, serving, columns, ingredients: findIngredients(text, language) };
+  }
+
+  const ingredients = findIngredients(text, language);
+  const dual = parseUsDualColumns(text, options.words);
+  if (dual) {
+    const { nutrients, serving, columns } = dual;
+    return { text, format, language, nutrients, serving, columns, ingredients };
+  }
+
+  const nutrients = parseUsNutrients(text);
+  crossCheckEnergy(nutrients);
+  clampConfidence(nutrients);
+
+  return {
+    text,
+    format,
+    language,
+    nutrients,
+    serving: findServing(text),
+    ingredients,
+  };
+};
+
+export const hasNutritionData = (result: LabelParseResult) =>
+  Object.keys(result.nutrients).length > 0;
+
+export const isLowConfidence = (nutrient?: ParsedNutrient) =>
+  !!nutrient && nutrient.confidence < LOW_CONFIDENCE_THRESHOLD;
@@ -0,0 +1,88 @@
+import { LabelLanguage, ParsedIngredients, TextSpan } from '@/types/nutrition';
+import { detectAllergens } from './allergens';
+import { LANGUAGES, termPattern } from './languages';
+
+// Things printed after the ingredient list that aren't part of it
+const LIST_END = [
+  '\\n\\s*\\n',
+  '\\.\\s*(?:\\n|$)',
+  // A new sentence: "... lecithin (soy). Kann Spuren von ..."
+  '\\.\\s+(?=[a-zà-öø-ÿ])',
+  'may\\s*contain',
+  'nutrition\\s*(?:facts|information)',
+  'distributed\\s*by',
+  'manufactured\\s*(?:by|for)',
+  'best\\s*before',
+];
+
+const termsFor = (language: LabelLanguage, key: 'ingredients' | 'contains') =>
+  language === 'en' ? LANGUAGES.en[key] : [...LANGUAGES[language][key], ...LANGUAGES.en[key]];
+
+// Splits on commas and semicolons that aren't inside parentheses or brackets,
+// so "flour (wheat, niacin), sugar" is two ingredients
+const splitTopLevel = (list: string) => {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of list) {
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+    if ((char === ',' || char === ';') && depth === 0) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items
+    .map((item) =>
+      item
+        // "Contains 2% or less of: salt" -> "salt"
+        .replace(/^[^(]*:\s*/, '')
+        .replace(/^\s*(?:and|et|y|und|e)\s+/i, '')
+        .replace(/[\s.*]+$/, '')
+        .trim()
+    )
+    .filter((item) => /\p{L}/u.test(item));
+};
+
+export const findIngredients = (text: string, language: LabelLanguage): ParsedIngredients | undefined => {
+  const matches: TextSpan[] = [];
+  let items: string[] = [];
+  let containsText = '';
+  let listEnd = 0;
+
+  const containsPattern = termPattern(termsFor(language, 'contains'));
+  const heading = new RegExp(`${termPattern(termsFor(language, 'ingredients'))}\\s*[:.]?`, 'i').exec(text);
+
+  if (heading) {
+    const start = heading.index + heading[0].length;
+    const rest = text.slice(start);
+    const end = new RegExp(`${LIST_END.join('|')}|${containsPattern}\\s*:`, 'i').exec(rest);
+    const section = rest.slice(0, end ? end.index : undefined);
+
+    // OCR keeps the label's line breaks, including words split across lines
+    items = splitTopLevel(section.replace(/-\n\s*/g, '').replace(/\s+/g, ' '));
+    matches.push({ text: section.trim(), start, end: start + section.length });
+    listEnd = start + section.length;
+  }
+
+  // "Contains 2% or less of" inside the list isn't the allergen statement
+  const statement = new RegExp(`${containsPattern}(?!\\s*\\d)\\s*:?\\s*([^.\\n]+)`, 'i').exec(text.slice(listEnd));
+  if (statement) {
+    const start = listEnd + statement.index;
+    containsText = statement[1];
+    matches.push({ text: statement[0].trim(), start, end: start + statement[0].length });
+  }
+
+  if (items.length === 0 && !containsText) return undefined;
+
+  return {
+    items,
+    allergens: detectAllergens(`${items.join(', ')}, ${containsText}`),
+    matches,
+  };
+};
@@ -0,0 +1,144 @@
+import { LabelLanguage, NutrientKey } from '@/types/nutrition';
+
+export interface LanguageTerms {
+  name: string;
+  // Tesseract traineddata code
+  tesseract: string;
+  energy: string[];
+  salt: string[];
+  // "per" / "pour" / "pro" in column headings
+  per: string[];
+  // Words that mark a per-portion column
+  portion: string[];
+  // Heading of the ingredient list and the allergen statement
+  ingredients: string[];
+  contains: string[];
+  // Row labels in EU table order, most specific first
+  nutrients: Partial<Record<NutrientKey, string[]>>;
+}
+
+export const LANGUAGES: Record<LabelLanguage, LanguageTerms> = {
+  en: {
+    name: 'English',
+    tesseract: 'eng',
+    energy: ['energy'],
+    salt: ['salt'],
+    per: ['per'],
+    portion: ['portion', 'serving', 'pack', 'bar', 'biscuit', 'slice'],
+    ingredients: ['ingredients?'],
+    contains: ['contains'],
+    nutrients: {
+      fat: ['(?<!saturated\\s{0,3})fat'],
+      saturatedFat: ['of\\s*which\\s*saturates', 'saturates', 'saturated\\s*fat'],
+      carbs: ['carbohydrates?'],
+      sugar: ['of\\s*which\\s*sugars', 'sugars'],
+      fiber: ['fibre', 'fiber'],
+      protein: ['protein'],
+    },
+  },
+  fr: {
+    name: 'Français',
+    tesseract: 'fra',
+    energy: ['valeur\\s*[ée]nerg[ée]tique', '[ée]nergie'],
+    salt: ['sel'],
+    per: ['pour', 'par'],
+    portion: ['portion', 'part', 'biscuit', 'barre'],
+    ingredients: ['ingr[ée]dients?'],
+    contains: ['contient'],
+    nutrients: {
+      fat: ['mati[èe]res?\\s*grasses', 'lipides'],
+      saturatedFat: ['dont\\s*acides\\s*gras\\s*satur[ée]s', 'acides\\s*gras\\s*satur[ée]s'],
+      carbs: ['glucides'],
+      sugar: ['dont\\s*sucres', 'sucres'],
+      fiber: ['fibres\\s*alimentaires', 'fibres'],
+      protein: ['prot[ée]ines'],
+    },
+  },
+  es: {
+    name: 'Español',
+    tesseract: 'spa',
+    energy: ['valor\\s*energ[ée]tico', 'energ[íi]a'],
+    salt: ['sal'],
+    per: ['por'],
+    portion: ['porci[óo]n', 'raci[óo]n'],
+    ingredients: ['ingredientes'],
+    contains: ['contiene'],
+    nutrients: {
+      fat: ['grasas(?!\\s*saturadas)'],
+      saturatedFat: ['de\\s*las\\s*cuales\\s*saturadas', 'grasas\\s*saturadas', 'saturadas'],
+      carbs: ['hidratos\\s*de\\s*carbono', 'carbohidratos'],
+      sugar: ['de\\s*los\\s*cuales\\s*az[úu]cares', 'az[úu]cares'],
+      fiber: ['fibra\\s*alimentaria', 'fibra'],
+      protein: ['prote[íi]nas'],
+    },
+  },
+  de: {
+    name: 'Deutsch',
+    tesseract: 'deu',
+    energy: ['brennwert', 'energie'],
+    salt: ['salz'],
+    per: ['pro', 'je'],
+    portion: ['portion', 'riegel', 'scheibe', 'st[üu]ck'],
+    ingredients: ['zutaten'],
+    contains: ['enth[äa]lt'],
+    nutrients: {
+      fat: ['fett'],
+      saturatedFat: ['davon\\s*ges[äa]ttigte\\s*fetts[äa]uren', 'ges[äa]ttigte\\s*fetts[äa]uren'],
+      carbs: ['kohlenhydrate'],
+      sugar: ['davon\\s*zucker', 'zucker'],
+      fiber: ['ballaststoffe'],
+      protein: ['eiwei(?:ß|ss)', 'protein'],
+    },
+  },
+  it: {
+    name: 'Italiano',
+    tesseract: 'ita',
+    energy: ['valore\\s*energetico', 'energia'],
+    salt: ['sale'],
+    per: ['per'],
+    portion: ['porzione'],
+    ingredients: ['ingredienti'],
+    contains: ['contiene'],
+    nutrients: {
+      fat: ['grassi(?!\\s*saturi)'],
+      saturatedFat: ['di\\s*cui\\s*(?:acidi\\s*)?grassi\\s*saturi', 'acidi\\s*grassi\\s*saturi', 'grassi\\s*saturi'],
+      carbs: ['carboidrati'],
+      sugar: ['di\\s*cui\\s*zuccheri', 'zuccheri'],
+      fiber: ['fibre'],
+      protein: ['proteine'],
+    },
+  },
+};
+
+// JS \b only knows ASCII letters, so "énergie" or "Eiweiß" need their own boundaries
+const LETTER = 'a-zà-öø-ÿß';
+
+export const termPattern = (terms: string[]) =>
+  `(?<![${LETTER}])(?:${terms.join('|')})(?![${LETTER}])`;
+
+const allTerms = (terms: LanguageTerms) => [
+  ...terms.energy,
+  ...terms.salt,
+  ...Object.values(terms.nutrients).flat(),
+];
+
+// Picks the language whose nutrient words appear most often; English wins ties
+export const detectLanguage = (text: string): LabelLanguage => {
+  let best: LabelLanguage = 'en';
+  let bestScore = 0;
+
+  for (const [language, terms] of Object.entries(LANGUAGES) as [LabelLanguage, LanguageTerms][]) {
+    const score = allTerms(terms).filter((term) => new RegExp(termPattern([term]), 'i').test(text)).length;
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+// Multilingual packs usually carry English too, so it rides along with the
+// selected language
+export const ocrLanguages = (language: LabelLanguage) =>
+  language === 'en' ? LANGUAGES.en.tesseract : `${LANGUAGES[language].tesseract}+${LANGUAGES.en.tesseract}`;
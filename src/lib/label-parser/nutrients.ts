@@ -0,0 +1,36 @@
+import { NutrientKey } from '@/types/nutrition';
+
+export interface NutrientRule {
+  key: NutrientKey;
+  // Label wording, most specific first. The first entry is the canonical
+  // FDA wording; matching a later alias costs a little confidence.
+  labels: string[];
+  // Wording that comes after the value, e.g. "Includes 10g Added Sugars"
+  trailingLabels?: string[];
+  // Accepted units, canonical unit first
+  units: string[];
+  // Anything above this per serving is almost certainly an OCR misread
+  max: number;
+}
+
+// Words that can sit in front of "fat" / "sugars" and change their meaning
+const NOT_TOTAL_FAT = '(?<!saturated\\s{0,3})(?<!sat\\.?\\s{0,3})(?<!trans\\s{0,3})';
+const NOT_ADDED_SUGARS = '(?<!added\\s{0,3})';
+
+export const NUTRIENT_RULES: NutrientRule[] = [
+  { key: 'calories', labels: ['calories(?!\\s*from)', 'energy', 'kcal'], units: ['kcal', 'cal'], max: 2000 },
+  { key: 'protein', labels: ['protein'], units: ['g'], max: 100 },
+  { key: 'carbs', labels: ['total\\s*carbohydrates?', 'carbohydrates?', 'carbs'], units: ['g'], max: 200 },
+  { key: 'fat', labels: ['total\\s*fat', `${NOT_TOTAL_FAT}fat`], units: ['g'], max: 100 },
+  { key: 'saturatedFat', labels: ['saturated\\s*fat', 'sat\\.?\\s*fat'], units: ['g'], max: 60 },
+  { key: 'transFat', labels: ['trans\\s*fat'], units: ['g'], max: 20 },
+  { key: 'cholesterol', labels: ['cholesterol'], units: ['mg'], max: 1000 },
+  { key: 'sodium', labels: ['sodium'], units: ['mg'], max: 5000 },
+  { key: 'fiber', labels: ['dietary\\s*fiber', 'fiber'], units: ['g'], max: 60 },
+  { key: 'sugar', labels: ['total\\s*sugars', `${NOT_ADDED_SUGARS}sugars`], units: ['g'], max: 150 },
+  { key: 'addedSugar', labels: ['added\\s*sugars'], trailingLabels: ['added\\s*sugars'], units: ['g'], max: 150 },
+  { key: 'vitaminD', labels: ['vitamin\\s*d', 'vit\\.?\\s*d'], units: ['mcg', 'µg', 'ug'], max: 100 },
+  { key: 'calcium', labels: ['calcium'], units: ['mg'], max: 2500 },
+  { key: 'iron', labels: ['iron'], units: ['mg'], max: 50 },
+  { key: 'potassium', labels: ['potassium'], units: ['mg'], max: 5000 },
+];
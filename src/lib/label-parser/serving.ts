@@ -0,0 +1,29 @@
+import { ParsedServing } from '@/types/nutrition';
+import { parseServingSize } from '@/lib/servings';
+import { spanOf } from './common';
+
+const SERVING_SIZE = /serving\s*size[\s:]*([^\n]+)/i;
+// "8 servings per container" (2016+ FDA layout) and "Servings Per Container 8" (older layout)
+const SERVINGS_BEFORE = /(?:about\s*)?(\d+(?:\.\d+)?)\s*servings?\s*per\s*(?:container|package)/i;
+const SERVINGS_AFTER = /servings?\s*per\s*(?:container|package)[\s:]*(?:about\s*)?(\d+(?:\.\d+)?)/i;
+
+export const findServing = (text: string): ParsedServing | undefined => {
+  const serving: ParsedServing = { matches: [] };
+
+  const sizeMatch = text.match(SERVING_SIZE);
+  if (sizeMatch) {
+    Object.assign(serving, parseServingSize(sizeMatch[1]));
+    serving.matches.push(spanOf(sizeMatch));
+  }
+
+  const countMatch = text.match(SERVINGS_BEFORE) ?? text.match(SERVINGS_AFTER);
+  if (countMatch) {
+    const count = parseFloat(countMatch[1]);
+    if (count > 0) {
+      serving.servingsPerContainer = count;
+      serving.matches.push(spanOf(countMatch));
+    }
+  }
+
+  return serving.matches.length > 0 ? serving : undefined;
+};
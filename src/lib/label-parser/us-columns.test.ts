@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { parseUsDualColumns } from './us-columns';
+
+const WITH_HEADINGS = `Nutrition Facts
+2 servings per container
+Serving size 1 cup (240g)
+Per serving Per container
+Calories 220 440
+Total Fat 5g 6% 10g 13%
+Sodium 150mg 7% 300mg 13%
+Total Carbohydrate 35g 13% 70g 25%
+Protein less than 1g <2g
+Iron 8% 15%`;
+
+const WITHOUT_HEADINGS = `Nutrition Facts
+Serving size 1 bar (40g)
+Calories 180 360
+Total Fat 7g 9% 14g 18%
+Total Carbohydrate 25g 9% 50g 18%
+Total Sugars 12g 24g
+Protein 4g 8g`;
+
+describe('parseUsDualColumns', () => {
+  it('splits a label with per serving and per container headings', () => {
+    const label = parseUsDualColumns(WITH_HEADINGS);
+    const [portion, container] = label?.columns ?? [];
+
+    expect(portion.nutrients).toMatchObject({
+      calories: { value: 220 },
+      fat: { value: 5 },
+      sodium: { value: 150 },
+      carbs: { value: 35 },
+      protein: { value: 1, lessThan: true },
+    });
+    expect(container.nutrients).toMatchObject({
+      calories: { value: 440 },
+      fat: { value: 10 },
+      sodium: { value: 300 },
+      carbs: { value: 70 },
+      protein: { value: 2, lessThan: true },
+    });
+    expect(label?.serving?.servingsPerContainer).toBe(2);
+    expect(container.serving.amount).toBe(480);
+  });
+
+  it('spots two columns of amounts without headings', () => {
+    const label = parseUsDualColumns(WITHOUT_HEADINGS);
+
+    expect(label?.nutrients).toMatchObject({ calories: { value: 180 }, protein: { value: 4 } });
+    expect(label?.columns[1].nutrients).toMatchObject({ calories: { value: 360 }, sugar: { value: 24 } });
+    // Not printed, so it comes from the columns
+    expect(label?.serving?.servingsPerContainer).toBe(2);
+  });
+
+  it.each([
+    {
+      name: 'a single-column label',
+      text: `Serving size 1 cup (240g)\nCalories 220\nTotal Fat 5g 6%\nSodium 150mg 7%\nProtein 4g`,
+    },
+    {
+      name: '"Amount per serving" over one column',
+      text: `8 servings per container\nAmount per serving\nCalories 220\nTotal Fat 5g 6%\nProtein 4g`,
+    },
+    {
+      name: 'too few rows with two amounts',
+      text: `Calories 180 360\nTotal Fat 7g 9%\nProtein 4g 8g`,
+    },
+  ])('leaves $name alone', ({ text }) => {
+    expect(parseUsDualColumns(text)).toBeUndefined();
+  });
+});
@@ -0,0 +1,288 @@
+import {
+  BoundingBox,
+  LabelColumn,
+  LabelWord,
+  NutrientKey,
+  ParsedNutrient,
+  ParsedNutrition,
+  ParsedServing,
+  TextSpan,
+} from '@/types/nutrition';
+import { clampConfidence, crossCheckEnergy, LESS_THAN, NUMBER, parseNumber } from './common';
+import { NUTRIENT_RULES, NutrientRule } from './nutrients';
+import { findServing } from './serving';
+
+// FDA dual-column layout: "Per serving | Per container" headings over two
+// columns of amounts. "8 servings per container" is a count, not a heading,
+// unless the "serving" belongs to the "Per serving" heading next to it.
+const SERVING_HEADING = /per\s*serving/i;
+const CONTAINER_HEADING = /(?<!(?<!per\s*)servings?\s{0,3})per\s*(?:container|package)/i;
+
+const UNITS = '(kcal|cal|mcg|µg|ug|mg|g)';
+// Groups: 1 "<", 2 number, 3 unit
+const AMOUNT = new RegExp(`${LESS_THAN}${NUMBER}[ \\t]*${UNITS}?(?![a-zµ\\d])`, 'gi');
+const AMOUNT_WORD = new RegExp(`^([<‹«])?${NUMBER}${UNITS}?$`, 'i');
+const UNIT_WORD = new RegExp(`^${UNITS}$`, 'i');
+
+// Without headings, calories plus this many other rows with exactly two
+// amounts mark a dual-column label
+const MIN_DUAL_ROWS = 3;
+
+interface Amount {
+  value: number;
+  unit?: string;
+  span: TextSpan;
+  lessThan?: boolean;
+}
+
+interface Row {
+  rule: NutrientRule;
+  labelIndex: number;
+  // [per serving, per container]
+  amounts: (Amount | undefined)[];
+  // Amounts found in the row, whichever column they went to
+  found: number;
+}
+
+interface LabelMatch {
+  span: TextSpan;
+  labelIndex: number;
+  trailing: boolean;
+}
+
+const findLabel = (text: string, rule: NutrientRule): LabelMatch | undefined => {
+  for (const [labelIndex, label] of rule.labels.entries()) {
+    const match = new RegExp(`\\b${label}\\b`, 'i').exec(text);
+    if (match) {
+      const span = { text: match[0], start: match.index, end: match.index + match[0].length };
+      return { span, labelIndex, trailing: !!rule.trailingLabels };
+    }
+  }
+  return undefined;
+};
+
+// Amounts on the label's line, skipping %DV figures. Trailing-label rows
+// ("Includes 10g Added Sugars") are read from the start of the line.
+const textAmounts = (text: string, label: LabelMatch): Amount[] => {
+  const start = label.trailing ? text.lastIndexOf('\n', label.span.start) + 1 : label.span.end;
+  const lineEnd = text.indexOf('\n', label.span.end);
+  const end = lineEnd === -1 ? text.length : lineEnd;
+  const line = text.slice(start, end);
+  const amounts: Amount[] = [];
+
+  for (const match of line.matchAll(AMOUNT)) {
+    const index = start + match.index;
+    if (index >= label.span.start && index < label.span.end) continue;
+    if (/^[ \t]*%/.test(line.slice(match.index + match[0].length))) continue;
+
+    const text = match[0].trim();
+    amounts.push({
+      value: parseNumber(match[2]),
+      unit: match[3]?.toLowerCase(),
+      span: { text, start: index, end: index + text.length },
+      ...(match[1] && { lessThan: true }),
+    });
+  }
+
+  return amounts;
+};
+
+const overlapping = (words: LabelWord[], span: TextSpan) =>
+  words.filter((word) => word.start < span.end && span.start < word.end);
+
+const boxOf = (words: LabelWord[]): BoundingBox | undefined =>
+  words.length === 0
+    ? undefined
+    : {
+        x0: Math.min(...words.map((w) => w.bbox.x0)),
+        y0: Math.min(...words.map((w) => w.bbox.y0)),
+        x1: Math.max(...words.map((w) => w.bbox.x1)),
+        y1: Math.max(...words.map((w) => w.bbox.y1)),
+      };
+
+const centerX = (box: BoundingBox) => (box.x0 + box.x1) / 2;
+
+// Amounts on the same printed line as the label, each placed in the column
+// whose heading it sits under
+const positionedAmounts = (
+  words: LabelWord[],
+  label: LabelMatch,
+  headings: BoundingBox[]
+): { amounts: (Amount | undefined)[]; found: number } => {
+  const amounts: (Amount | undefined)[] = headings.map(() => undefined);
+  const labelWords = overlapping(words, label.span);
+  const labelBox = boxOf(labelWords);
+  if (!labelBox) return { amounts, found: 0 };
+
+  const slack = (labelBox.y1 - labelBox.y0) * 0.3;
+  const row = words
+    .filter((word) => !labelWords.includes(word))
+    .filter((word) => label.trailing || word.bbox.x0 >= labelBox.x1)
+    .filter((word) => {
+      const middle = (word.bbox.y0 + word.bbox.y1) / 2;
+      return middle >= labelBox.y0 - slack && middle <= labelBox.y1 + slack;
+    })
+    .sort((a, b) => a.bbox.x0 - b.bbox.x0);
+
+  let found = 0;
+  row.forEach((word, index) => {
+    const match = word.text.match(AMOUNT_WORD);
+    const next = row[index + 1];
+    if (!match || next?.text.startsWith('%')) return;
+
+    // "5 g" read as two words
+    const unitWord = !match[3] && next && UNIT_WORD.test(next.text) ? next : undefined;
+    const end = unitWord ? unitWord.end : word.end;
+    const box = boxOf(unitWord ? [word, unitWord] : [word]);
+
+    let column = 0;
+    headings.forEach((heading, i) => {
+      if (Math.abs(centerX(heading) - centerX(box)) < Math.abs(centerX(headings[column]) - centerX(box))) column = i;
+    });
+
+    found++;
+    amounts[column] ??= {
+      value: parseNumber(match[2]),
+      unit: (match[3] ?? unitWord?.text)?.toLowerCase(),
+      span: { text: unitWord ? `${word.text} ${unitWord.text}` : word.text, start: word.start, end },
+      ...(match[1] && { lessThan: true }),
+    };
+  });
+
+  return { amounts, found };
+};
+
+const toNutrient = (row: Row, amount: Amount, maxScale: number): ParsedNutrient => {
+  let confidence = 0.9;
+  if (row.labelIndex > 0) confidence -= 0.1;
+  if (!amount.unit && row.rule.key !== 'calories') confidence -= 0.25;
+  if (row.found !== 2) confidence -= 0.2;
+  if (amount.value > row.rule.max * maxScale) confidence = 0.3;
+
+  return {
+    value: amount.value,
+    unit: row.rule.units[0],
+    match: amount.span,
+    confidence,
+    ...(amount.lessThan && { lessThan: true }),
+  };
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Every per-container value should be the per-serving value times the same
+// number of servings. Returns that number, and marks values that break it.
+const crossCheckContainer = (perServing: ParsedNutrition, perContainer: ParsedNutrition) => {
+  const pairs = (Object.keys(perContainer) as NutrientKey[])
+    .filter((key) => perServing[key]?.value > 0 && perContainer[key].value > 0)
+    .map((key) => ({ serving: perServing[key], container: perContainer[key] }));
+  if (pairs.length === 0) return undefined;
+
+  const ratio = median(pairs.map((p) => p.container.value / p.serving.value));
+  for (const { serving, container } of pairs) {
+    const off = Math.abs(container.value / serving.value - ratio) / ratio > 0.15;
+    if (off || container.value < serving.value) {
+      serving.confidence -= 0.2;
+      container.confidence -= 0.2;
+    }
+  }
+
+  return ratio >= 1 ? Math.round(ratio * 10) / 10 : undefined;
+};
+
+export interface DualColumnLabel {
+  nutrients: ParsedNutrition;
+  serving?: ParsedServing;
+  columns: LabelColumn[];
+}
+
+const headingSpan = (text: string, pattern: RegExp): TextSpan | undefined => {
+  const match = pattern.exec(text);
+  return match ? { text: match[0], start: match.index, end: match.index + match[0].length } : undefined;
+};
+
+// Returns undefined for ordinary single-column labels
+export const parseUsDualColumns = (text: string, words: LabelWord[] = []): DualColumnLabel | undefined => {
+  const servingHeading = headingSpan(text, SERVING_HEADING);
+  const containerHeading = headingSpan(text, CONTAINER_HEADING);
+  const headingBoxes = servingHeading && containerHeading
+    ? [boxOf(overlapping(words, servingHeading)), boxOf(overlapping(words, containerHeading))]
+    : [];
+  // Side-by-side headings; "Amount Per Serving" over a single column isn't one
+  const positioned = headingBoxes.length === 2 && headingBoxes.every(Boolean) &&
+    headingBoxes[0].y0 < headingBoxes[1].y1 && headingBoxes[1].y0 < headingBoxes[0].y1;
+
+  const rows: Row[] = [];
+  for (const rule of NUTRIENT_RULES) {
+    const label = findLabel(text, rule);
+    if (!label) continue;
+
+    if (positioned) {
+      const { amounts, found } = positionedAmounts(words, label, headingBoxes);
+      rows.push({ rule, labelIndex: label.labelIndex, amounts, found });
+    } else {
+      // OCR text keeps each printed row on one line, left column first
+      const amounts = textAmounts(text, label);
+      rows.push({ rule, labelIndex: label.labelIndex, amounts: amounts.slice(0, 2), found: amounts.length });
+    }
+  }
+
+  const hasHeadings = !!servingHeading && !!containerHeading;
+  if (!hasHeadings) {
+    const dualRows = rows.filter((row) => row.found === 2);
+    if (!dualRows.some((row) => row.rule.key === 'calories') || dualRows.length - 1 < MIN_DUAL_ROWS) return undefined;
+  }
+
+  const labelServing = findServing(text);
+  const perServing: ParsedNutrition = {};
+  const perContainer: ParsedNutrition = {};
+  const containerScale = labelServing?.servingsPerContainer ?? 20;
+  for (const row of rows) {
+    const [serving, container] = row.amounts;
+    if (serving) perServing[row.rule.key] = toNutrient(row, serving, 1);
+    if (container) perContainer[row.rule.key] = toNutrient(row, container, containerScale);
+  }
+  if (Object.keys(perContainer).length === 0) return undefined;
+
+  // The label's own servings count wins; otherwise work it out from the columns
+  const ratio = crossCheckContainer(perServing, perContainer);
+  const servingsPerContainer = labelServing?.servingsPerContainer ?? ratio;
+
+  for (const nutrients of [perServing, perContainer]) {
+    crossCheckEnergy(nutrients);
+    clampConfidence(nutrients);
+  }
+
+  const servingInfo = {
+    householdMeasure: labelServing?.householdMeasure,
+    amount: labelServing?.amount,
+    unit: labelServing?.unit,
+    servingsPerContainer,
+  };
+  const columns: LabelColumn[] = [
+    { basis: 'portion', heading: servingHeading, serving: servingInfo, nutrients: perServing },
+    {
+      basis: 'container',
+      heading: containerHeading,
+      serving: {
+        householdMeasure: '1 container',
+        amount: labelServing?.amount && servingsPerContainer
+          ? Math.round(labelServing.amount * servingsPerContainer * 10) / 10
+          : undefined,
+        unit: labelServing?.unit,
+        servingsPerContainer: 1,
+      },
+      nutrients: perContainer,
+    },
+  ];
+
+  return {
+    nutrients: perServing,
+    serving: { ...servingInfo, matches: labelServing?.matches ?? [] },
+    columns,
+  };
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseUsNutrients } from './us';
+
+describe('parseUsNutrients', () => {
+  it.each([
+    { line: 'Protein 5g', key: 'protein', value: 5 },
+    { line: 'Total Fat 8g 10%', key: 'fat', value: 8 },
+    { line: 'Sodium 1,200mg 52%', key: 'sodium', value: 1200 },
+    { line: 'Includes 10g Added Sugars 20%', key: 'addedSugar', value: 10 },
+  ] as const)('reads "$line"', ({ line, key, value }) => {
+    expect(parseUsNutrients(line)[key]).toMatchObject({ value });
+  });
+
+  it.each([
+    { line: 'Protein less than 1g', key: 'protein', value: 1 },
+    { line: 'Trans Fat <0.5g', key: 'transFat', value: 0.5 },
+    { line: 'Dietary Fiber < 1 g 2%', key: 'fiber', value: 1 },
+    // OCR often reads "<" as a guillemet
+    { line: 'Total Sugars ‹1g', key: 'sugar', value: 1 },
+  ] as const)('marks "$line" as an upper bound', ({ line, key, value }) => {
+    expect(parseUsNutrients(line)[key]).toMatchObject({ value, lessThan: true });
+  });
+
+  it.each([
+    { line: 'Iron 8%', key: 'iron', value: 1.44 },
+    { line: 'Calcium 10%', key: 'calcium', value: 130 },
+    { line: 'Vitamin D 20%', key: 'vitaminD', value: 4 },
+    { line: 'Potassium 6%', key: 'potassium', value: 282 },
+  ] as const)('works out "$line" from the daily value', ({ line, key, value }) => {
+    const nutrient = parseUsNutrients(line)[key];
+    expect(nutrient?.value).toBeCloseTo(value);
+    expect(nutrient?.percentDailyValue).toBeDefined();
+  });
+
+  it('prefers a printed amount over the %DV', () => {
+    expect(parseUsNutrients('Iron 2mg 10%').iron).toMatchObject({ value: 2 });
+  });
+
+  it('leaves out %DV-only values for nutrients without a daily value', () => {
+    expect(parseUsNutrients('Trans Fat 0%').transFat).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { NutrientKey, ParsedNutrient, ParsedNutrition } from '@/types/nutrition';
+import { fromPercentDailyValue } from '@/lib/nutrients';
+import { LESS_THAN, LOW_CONFIDENCE_THRESHOLD, NUMBER, parseNumber, spanOf } from './common';
+import { NUTRIENT_RULES, NutrientRule } from './nutrients';
+
+// Calories are printed without a unit on US labels, so a missing unit is
+// only suspicious for the other nutrients
+const UNITLESS_OK: NutrientKey[] = ['calories'];
+
+const escapeUnit = (unit: string) => unit.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const unitGroup = (rule: NutrientRule) =>
+  `(${[...rule.units].sort((a, b) => b.length - a.length).map(escapeUnit).join('|')})?(?![a-zµ])`;
+
+interface Candidate extends ParsedNutrient {
+  labelIndex: number;
+}
+
+const findCandidates = (text: string, rule: NutrientRule): Candidate[] => {
+  const candidates: Candidate[] = [];
+  const units = unitGroup(rule);
+
+  // Groups: 1 "<" / "less than", 2 number, 3 unit
+  const collect = (pattern: RegExp, labelIndex: number) => {
+    for (const match of text.matchAll(pattern)) {
+      const value = parseNumber(match[2]);
+      if (isNaN(value) || value < 0) continue;
+
+      let confidence = 0.95;
+      if (labelIndex > 0) confidence -= 0.1;
+      if (!match[3] && !UNITLESS_OK.includes(rule.key)) confidence -= 0.25;
+      if (value > rule.max) confidence = 0.3;
+
+      candidates.push({
+        value,
+        unit: rule.units[0],
+        match: spanOf(match),
+        confidence,
+        ...(match[1] && { lessThan: true }),
+        labelIndex,
+      });
+    }
+  };
+
+  rule.labels.forEach((label, index) => {
+    collect(new RegExp(`\\b${label}\\b[\\s:]*${LESS_THAN}${NUMBER}\\s*${units}(?![.,]?\\d|[ \\t]*%)`, 'gi'), index);
+  });
+  rule.trailingLabels?.forEach((label) => {
+    collect(new RegExp(`${LESS_THAN}${NUMBER}\\s*${units}\\s*${label}\\b`, 'gi'), 0);
+  });
+
+  return candidates;
+};
+
+// Vitamins and minerals are often printed as a %DV alone ("Iron 8%"). Only
+// used when no amount was found, and trusted a little less since the
+// percentage is rounded on the label.
+const findPercentCandidates = (text: string, rule: NutrientRule): Candidate[] => {
+  const candidates: Candidate[] = [];
+
+  rule.labels.forEach((label, labelIndex) => {
+    const pattern = new RegExp(`\\b${label}\\b[\\s:]*${LESS_THAN}${NUMBER}[ \\t]*%`, 'gi');
+    for (const match of text.matchAll(pattern)) {
+      const percent = parseNumber(match[2]);
+      const value = fromPercentDailyValue(rule.key, percent);
+      if (value === undefined || isNaN(value)) continue;
+
+      candidates.push({
+        value,
+        unit: rule.units[0],
+        match: spanOf(match),
+        confidence: percent > 100 ? 0.4 : labelIndex > 0 ? 0.7 : 0.8,
+        percentDailyValue: percent,
+        ...(match[1] && { lessThan: true }),
+        labelIndex,
+      });
+    }
+  });
+
+  return candidates;
+};
+
+const pickBest = (candidates: Candidate[]): ParsedNutrient | undefined => {
+  if (candidates.length === 0) return undefined;
+
+  const [best] = [...candidates].sort(
+    (a, b) => b.confidence - a.confidence || a.match.start - b.match.start
+  );
+  const { labelIndex, ...nutrient } = best;
+
+  // Different readings for the same nutrient mean we may have picked the wrong one
+  const disagreeing = candidates.some((c) => c.value !== best.value && c.confidence >= LOW_CONFIDENCE_THRESHOLD);
+  if (disagreeing) nutrient.confidence -= 0.15;
+
+  return nutrient;
+};
+
+// US FDA "Nutrition Facts" panel: one value per nutrient, label then amount
+export const parseUsNutrients = (text: string): ParsedNutrition => {
+  const nutrients: ParsedNutrition = {};
+
+  for (const rule of NUTRIENT_RULES) {
+    const candidates = findCandidates(text, rule);
+    const best = pickBest(candidates.length > 0 ? candidates : findPercentCandidates(text, rule));
+    if (best) nutrients[rule.key] = best;
+  }
+
+  return nutrients;
+};
@@ -0,0 +1,53 @@
+// The browser's own database, which keeps logging working without a
+// connection: changes waiting to reach the server ('outbox'), and the last
+// copy of each day fetched from it ('days')
+
+export type LocalStore = 'outbox' | 'days';
+
+const DB_NAME = 'daily-diet-scan-offline';
+const DB_VERSION = 1;
+
+let opening: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () =>
+  (opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore('outbox', { keyPath: 'id' });
+      request.result.createObjectStore('days');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      opening = null;
+      reject(request.error);
+    };
+  }));
+
+const run = async <T>(
+  store: LocalStore,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const localGetAll = <T>(store: LocalStore) => run<T[]>(store, 'readonly', (s) => s.getAll());
+
+export const localGet = <T>(store: LocalStore, key: string) =>
+  run<T | undefined>(store, 'readonly', (s) => s.get(key));
+
+// The key is left out for stores that take it from the value
+export const localPut = async (store: LocalStore, value: unknown, key?: string) => {
+  await run(store, 'readwrite', (s) => (key === undefined ? s.put(value) : s.put(value, key)));
+};
+
+export const localDelete = async (store: LocalStore, key: string) => {
+  await run(store, 'readwrite', (s) => s.delete(key));
+};
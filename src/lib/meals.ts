@@ -0,0 +1,51 @@
+import { MealGoals, MealType } from '@/types/nutrition';
+import { hourIn } from './dates';
+import { repository } from './repositories';
+
+// Display names, in the order meals are shown
+export const MEAL_NAMES: Record<MealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snacks',
+};
+
+export const MEALS = Object.keys(MEAL_NAMES) as MealType[];
+
+export const MEAL_GOAL_KEYS = ['calories', 'protein', 'carbs', 'fat'] as const;
+
+// Stored meals are plain text; anything unrecognised counts as a snack
+export const toMeal = (value?: string | null): MealType =>
+  MEALS.includes(value as MealType) ? (value as MealType) : 'snack';
+
+// The meal someone is most likely logging at this time of day in their zone
+export const mealForTime = (instant: Date, timeZone: string): MealType => {
+  const hour = hourIn(instant, timeZone);
+  if (hour >= 4 && hour < 10.5) return 'breakfast';
+  if (hour >= 11 && hour < 15) return 'lunch';
+  if (hour >= 17 && hour < 22) return 'dinner';
+  return 'snack';
+};
+
+export const loadMealGoals = async (): Promise<Partial<Record<MealType, MealGoals>>> => {
+  const userId = await repository.currentUserId();
+  if (!userId) return {};
+
+  const goals: Partial<Record<MealType, MealGoals>> = {};
+  for (const row of await repository.mealGoals.list(userId)) {
+    const meal: MealGoals = {};
+    for (const key of MEAL_GOAL_KEYS) {
+      if (row[key] !== null) meal[key] = row[key];
+    }
+    goals[toMeal(row.meal)] = meal;
+  }
+  return goals;
+};
+
+export const saveMealGoals = (userId: string, meal: MealType, goals: MealGoals) =>
+  repository.mealGoals.save({
+    user_id: userId,
+    meal,
+    ...Object.fromEntries(MEAL_GOAL_KEYS.map((key) => [key, goals[key] ?? null])),
+    updated_at: new Date().toISOString(),
+  });
@@ -0,0 +1,98 @@
+import { NutrientKey } from '@/types/nutrition';
+
+export interface NutrientInfo {
+  name: string;
+  unit: string;
+}
+
+// Display names and units for every NutritionData field, in label order
+export const NUTRIENT_INFO: Record<NutrientKey, NutrientInfo> = {
+  calories: { name: 'Calories', unit: 'kcal' },
+  fat: { name: 'Total Fat', unit: 'g' },
+  saturatedFat: { name: 'Saturated Fat', unit: 'g' },
+  transFat: { name: 'Trans Fat', unit: 'g' },
+  cholesterol: { name: 'Cholesterol', unit: 'mg' },
+  sodium: { name: 'Sodium', unit: 'mg' },
+  carbs: { name: 'Carbohydrates', unit: 'g' },
+  fiber: { name: 'Fiber', unit: 'g' },
+  sugar: { name: 'Sugars', unit: 'g' },
+  addedSugar: { name: 'Added Sugars', unit: 'g' },
+  protein: { name: 'Protein', unit: 'g' },
+  vitaminD: { name: 'Vitamin D', unit: 'mcg' },
+  calcium: { name: 'Calcium', unit: 'mg' },
+  iron: { name: 'Iron', unit: 'mg' },
+  potassium: { name: 'Potassium', unit: 'mg' },
+};
+
+export const NUTRIENT_KEYS = Object.keys(NUTRIENT_INFO) as NutrientKey[];
+
+// Required on every entry and food; the rest may be unknown
+export const MACRONUTRIENT_KEYS: NutrientKey[] = ['calories', 'protein', 'carbs', 'fat'];
+export const MICRONUTRIENT_KEYS = NUTRIENT_KEYS.filter((key) => !MACRONUTRIENT_KEYS.includes(key));
+
+export type NutrientValues = Partial<Record<NutrientKey, number>>;
+
+// Database column stem for each nutrient: food_entries.<stem>,
+// foods.<stem>_per_serving and daily_logs.total_<stem>
+const NUTRIENT_COLUMNS: Record<NutrientKey, string> = {
+  calories: 'calories',
+  protein: 'protein',
+  carbs: 'carbs',
+  fat: 'fat',
+  saturatedFat: 'saturated_fat',
+  transFat: 'trans_fat',
+  cholesterol: 'cholesterol',
+  sodium: 'sodium',
+  fiber: 'fiber',
+  sugar: 'sugar',
+  addedSugar: 'added_sugar',
+  vitaminD: 'vitamin_d',
+  calcium: 'calcium',
+  iron: 'iron',
+  potassium: 'potassium',
+};
+
+export const entryColumn = (key: NutrientKey) => NUTRIENT_COLUMNS[key];
+export const foodColumn = (key: NutrientKey) => `${NUTRIENT_COLUMNS[key]}_per_serving`;
+export const totalColumn = (key: NutrientKey) => `total_${NUTRIENT_COLUMNS[key]}`;
+
+// Row fields for every nutrient, with unknown values as null
+export const toColumns = (values: NutrientValues, column: (key: NutrientKey) => string) =>
+  Object.fromEntries(NUTRIENT_KEYS.map((key) => [column(key), values[key] ?? null]));
+
+export const fromColumns = (row: object, column: (key: NutrientKey) => string): NutrientValues => {
+  const values: NutrientValues = {};
+  for (const key of NUTRIENT_KEYS) {
+    const value = row[column(key) as keyof typeof row];
+    if (typeof value === 'number') values[key] = value;
+  }
+  return values;
+};
+
+export const scaleNutrients = (values: NutrientValues, factor: number): NutrientValues =>
+  Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined).map(([key, value]) => [key, value * factor])
+  );
+
+// FDA Daily Values for adults and children 4+ (21 CFR 101.9), in NUTRIENT_INFO
+// units. Calories, trans fat and total sugars have none.
+export const DAILY_VALUES: Partial<Record<NutrientKey, number>> = {
+  fat: 78,
+  saturatedFat: 20,
+  cholesterol: 300,
+  sodium: 2300,
+  carbs: 275,
+  fiber: 28,
+  addedSugar: 50,
+  protein: 50,
+  vitaminD: 20,
+  calcium: 1300,
+  iron: 18,
+  potassium: 4700,
+};
+
+// "Iron 8%" -> 1.44 (mg)
+export const fromPercentDailyValue = (key: NutrientKey, percent: number) => {
+  const dailyValue = DAILY_VALUES[key];
+  return dailyValue === undefined ? undefined : Math.round(dailyValue * percent) / 100;
+};
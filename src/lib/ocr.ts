@@ -0,0 +1,192 @@
+import Tesseract, { createWorker } from 'tesseract.js';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import simdCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import { LabelWord } from '@/types/nutrition';
+
+// Long-lived Tesseract workers shared by every scan in the session. Creating a
+// worker downloads the core and language data, so we keep them around and
+// only reinitialize when a scan needs different languages.
+
+export type OcrStage = 'loading' | 'initializing' | 'recognizing';
+
+export interface OcrProgress {
+  stage: OcrStage;
+  // 0-1 within the current stage
+  progress: number;
+}
+
+export class OcrCancelledError extends Error {
+  constructor() {
+    super('OCR cancelled');
+    this.name = 'OcrCancelledError';
+  }
+}
+
+// A recognized word and where its text sits in the page text, so parsed
+// values (which carry text offsets) can be traced back to a box on the image
+export interface OcrWord extends LabelWord {
+  confidence: number;
+}
+
+export interface OcrJob {
+  result: Promise<Tesseract.RecognizeResult>;
+  cancel: () => void;
+}
+
+interface PooledWorker {
+  worker: Promise<Tesseract.Worker>;
+  languages: string;
+  busy: boolean;
+  onProgress?: (progress: OcrProgress) => void;
+}
+
+const POOL_SIZE = Math.min(2, navigator.hardwareConcurrency || 1);
+
+// The worker script and engine are served with the app instead of from
+// Tesseract's CDN, so scanning works offline; the service worker precaches
+// them. Language data still comes from the CDN: the service worker fetches
+// English up front and keeps other languages once used, and Tesseract keeps
+// its own copy in IndexedDB. The worker loads these from a blob, so they need
+// to be absolute URLs.
+const absolute = (url: string) => new URL(url, window.location.href).href;
+
+// The smallest module using a SIMD instruction; the same check Tesseract makes
+// when left to pick an engine build itself
+const SIMD_TEST = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+]);
+
+const workerPaths = {
+  workerPath: absolute(workerUrl),
+  corePath: absolute(WebAssembly.validate(SIMD_TEST) ? simdCoreUrl : coreUrl),
+};
+
+const pool: PooledWorker[] = [];
+const waiting: (() => void)[] = [];
+
+const stageOf = (status: string): OcrStage => {
+  if (status.includes('recogniz')) return 'recognizing';
+  if (status.includes('initializ')) return 'initializing';
+  return 'loading';
+};
+
+const spawn = (languages: string, onProgress?: (progress: OcrProgress) => void): PooledWorker => {
+  const pooled: PooledWorker = { worker: undefined, languages, busy: true, onProgress };
+  pooled.worker = createWorker(languages, 1, {
+    ...workerPaths,
+    logger: (m) => pooled.onProgress?.({ stage: stageOf(m.status), progress: m.progress }),
+  });
+  pool.push(pooled);
+  return pooled;
+};
+
+const release = (pooled: PooledWorker) => {
+  pooled.busy = false;
+  pooled.onProgress = undefined;
+  waiting.shift()?.();
+};
+
+// Drops a worker that was cancelled mid-job or failed to start
+const discard = (pooled: PooledWorker) => {
+  const index = pool.indexOf(pooled);
+  if (index !== -1) pool.splice(index, 1);
+  pooled.worker.then((worker) => worker.terminate()).catch(() => undefined);
+  waiting.shift()?.();
+};
+
+const acquire = async (languages: string, onProgress?: (progress: OcrProgress) => void): Promise<PooledWorker> => {
+  for (;;) {
+    const idle =
+      pool.find((p) => !p.busy && p.languages === languages) ?? pool.find((p) => !p.busy);
+
+    if (idle) {
+      idle.busy = true;
+      idle.onProgress = onProgress;
+      if (idle.languages !== languages) {
+        try {
+          const worker = await idle.worker;
+          await worker.reinitialize(languages);
+          idle.languages = languages;
+        } catch (error) {
+          discard(idle);
+          throw error;
+        }
+      }
+      return idle;
+    }
+
+    if (pool.length < POOL_SIZE) return spawn(languages, onProgress);
+
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+};
+
+// Starts a worker in the background so the first scan doesn't pay for it
+export const warmUpOcr = (languages: string) => {
+  if (pool.some((p) => p.languages === languages) || pool.length >= POOL_SIZE) return;
+
+  const pooled = spawn(languages);
+  pooled.worker.then(() => release(pooled), () => discard(pooled));
+};
+
+export const recognizeImage = (
+  image: Tesseract.ImageLike,
+  languages: string,
+  onProgress?: (progress: OcrProgress) => void
+): OcrJob => {
+  let cancelled = false;
+  let active: PooledWorker | undefined;
+  let rejectCancelled: (error: OcrCancelledError) => void;
+  const cancelledResult = new Promise<never>((_, reject) => {
+    rejectCancelled = reject;
+  });
+
+  const run = async () => {
+    const pooled = await acquire(languages, onProgress);
+    if (cancelled) {
+      release(pooled);
+      throw new OcrCancelledError();
+    }
+
+    active = pooled;
+    try {
+      const worker = await pooled.worker;
+      const result = await worker.recognize(image, {}, { text: true, blocks: true });
+      active = undefined;
+      release(pooled);
+      return result;
+    } catch (error) {
+      active = undefined;
+      if (!cancelled) discard(pooled);
+      throw error;
+    }
+  };
+
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+    rejectCancelled(new OcrCancelledError());
+    // Tesseract can't abort a job, so the worker running it has to go
+    if (active) discard(active);
+  };
+
+  return { result: Promise.race([run(), cancelledResult]), cancel };
+};
+
+export const locateWords = (page: Tesseract.Page): OcrWord[] => {
+  const words = (page.blocks ?? []).flatMap((block) =>
+    block.paragraphs.flatMap((paragraph) => paragraph.lines.flatMap((line) => line.words))
+  );
+
+  const located: OcrWord[] = [];
+  let cursor = 0;
+  for (const word of words) {
+    const start = page.text.indexOf(word.text, cursor);
+    if (start === -1) continue;
+    cursor = start + word.text.length;
+    located.push({ text: word.text, confidence: word.confidence, bbox: word.bbox, start, end: cursor });
+  }
+
+  return located;
+};
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FoodEntry, FoodLogInput } from './daily-logs';
+import { listOutbox, queueAdd, queueUpdate, syncOutbox } from './outbox';
+import { repository } from './repositories';
+
+vi.mock('./repositories', async () => {
+  const { createMemoryRepository, LOCAL_USER_ID } = await import('./repositories/memory');
+  return { createMemoryRepository, LOCAL_USER_ID, repository: createMemoryRepository() };
+});
+
+// The device's database, kept in a map
+vi.mock('./local-db', () => {
+  const stores = { outbox: new Map(), days: new Map() };
+  return {
+    localGetAll: async (store: string) => structuredClone([...stores[store].values()]),
+    localGet: async (store: string, key: string) => structuredClone(stores[store].get(key)),
+    localPut: async (store: string, value: { id: string }, key?: string) => {
+      stores[store].set(key ?? value.id, structuredClone(value));
+    },
+    localDelete: async (store: string, key: string) => {
+      stores[store].delete(key);
+    },
+  };
+});
+
+const DATE = '2026-10-10';
+
+const apple = (calories: number): FoodLogInput => ({ date: DATE, entry: { food_name: 'Apple', calories } });
+
+// The entry as the device shows it before the server has it
+const added = (id: string): FoodEntry =>
+  ({ id, food_name: 'Apple', calories: 95, created_at: '2026-10-10T08:00:00.000Z', updated_at: '2026-10-10T08:00:00.000Z' }) as FoodEntry;
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe('outbox', () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    vi.stubGlobal('navigator', { onLine: true });
+    userId = await repository.currentUserId();
+  });
+
+  it('syncs an edit made against the version a synced add came back with', async () => {
+    const entry = added(crypto.randomUUID());
+    const input = apple(95);
+    await queueAdd(userId, { ...input, entry: { ...input.entry, id: entry.id, created_at: entry.created_at } }, entry);
+
+    const { saved } = await syncOutbox();
+    const synced = saved.find((e) => e.id === entry.id);
+    expect(synced.updated_at).not.toBe(entry.updated_at);
+
+    await tick();
+    await queueUpdate(userId, apple(120), { ...entry, updated_at: synced.updated_at, calories: 120 });
+    const result = await syncOutbox();
+
+    expect(result.conflicts).toEqual([]);
+    expect((await repository.entries.get(entry.id)).calories).toBe(120);
+    expect(await listOutbox(userId)).toEqual([]);
+  });
+
+  it('drops an edit when the entry changed on another device first', async () => {
+    const entry = await repository.entries.insert({
+      ...apple(95).entry,
+      user_id: userId,
+      daily_log_id: await repository.logs.getOrCreate(DATE),
+    });
+    await queueUpdate(userId, apple(120), { ...entry, calories: 120 });
+
+    await tick();
+    await repository.entries.update(entry.id, { calories: 80 });
+    const result = await syncOutbox();
+
+    expect(result.conflicts).toHaveLength(1);
+    expect((await repository.entries.get(entry.id)).calories).toBe(80);
+    expect(await listOutbox(userId)).toEqual([]);
+  });
+});
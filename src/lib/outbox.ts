@@ -0,0 +1,252 @@
+import {
+  DayLog,
+  deleteLoggedFood,
+  FoodEntry,
+  FoodLogInput,
+  logFood,
+  updateLoggedFood,
+  withEntry,
+  withoutEntry,
+} from './daily-logs';
+import { localDelete, localGet, localGetAll, localPut } from './local-db';
+import { repository } from './repositories';
+
+// Entries are changed on the device first and the change is queued here until
+// the server has it. There's one item per entry, holding its latest change.
+export interface OutboxItem {
+  // The entry's id; new entries get theirs on the device, so sending one
+  // twice can't log it twice
+  id: string;
+  userId: string;
+  kind: 'add' | 'update' | 'delete';
+  // daily_logs.date the entry ends up on, or is removed from
+  date: string;
+  input?: FoodLogInput;
+  // The entry as it will look once synced; unset for deletes
+  entry?: FoodEntry;
+  // The entry's updated_at on the server when the edit was made, so a change
+  // made on another device since can be spotted
+  baseUpdatedAt?: string;
+  queuedAt: string;
+  // Bumped on every change, so a sync can tell the item changed while it was
+  // being sent
+  revision: number;
+  // Why the server last turned the change down
+  error?: string;
+}
+
+export interface SyncResult {
+  // Changes the server took
+  synced: number;
+  // Changes the server turned down; they stay queued and are retried
+  failed: number;
+  // Changes dropped because the entry changed on another device first
+  conflicts: string[];
+  // Entries as the server saved them. Their updated_at is what the next edit
+  // has to be made against, so copies of the entry on the device need it.
+  saved: FoodEntry[];
+}
+
+const SYNC_LOCK = 'daily-diet-scan-outbox';
+
+const errorMessage = (error: unknown) =>
+  error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error);
+
+// No connection, as opposed to the server refusing the request. Browsers
+// word a failed fetch differently.
+export const isOfflineError = (error: unknown) =>
+  !navigator.onLine || /failed to fetch|networkerror|load failed|network request failed/i.test(errorMessage(error));
+
+const isDuplicateError = (error: unknown) => (error as { code?: string })?.code === '23505';
+
+// Reading an item and writing it back happen one change at a time, so two
+// quick edits can't lose one another
+let changing: Promise<unknown> = Promise.resolve();
+const serialized = <T>(change: () => Promise<T>): Promise<T> => {
+  const result = changing.then(change);
+  changing = result.catch(() => undefined);
+  return result;
+};
+
+export const listOutbox = async (userId: string) =>
+  (await localGetAll<OutboxItem>('outbox'))
+    .filter((item) => item.userId === userId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+// input.entry must carry the new entry's id and created_at
+export const queueAdd = (userId: string, input: FoodLogInput, entry: FoodEntry) =>
+  serialized(() =>
+    localPut('outbox', {
+      id: entry.id,
+      userId,
+      kind: 'add',
+      date: input.date,
+      input,
+      entry,
+      queuedAt: new Date().toISOString(),
+      revision: 0,
+    } satisfies OutboxItem)
+  );
+
+// entry is the edited entry as it now looks on the device
+export const queueUpdate = (userId: string, input: FoodLogInput, entry: FoodEntry) =>
+  serialized(async () => {
+    const existing = await localGet<OutboxItem>('outbox', entry.id);
+    // The server hasn't seen the entry yet, so it's still sent as a new one
+    const stillNew = existing?.kind === 'add';
+
+    await localPut('outbox', {
+      id: entry.id,
+      userId,
+      kind: stillNew ? 'add' : 'update',
+      date: input.date,
+      input: stillNew ? { ...input, entry: { ...input.entry, id: entry.id, created_at: entry.created_at } } : input,
+      entry,
+      baseUpdatedAt: existing?.baseUpdatedAt ?? entry.updated_at,
+      queuedAt: existing?.queuedAt ?? new Date().toISOString(),
+      revision: (existing?.revision ?? 0) + 1,
+    } satisfies OutboxItem);
+  });
+
+// Deleting an entry the server hasn't seen yet is still sent: its add may
+// already be on the way
+export const queueDelete = (userId: string, date: string, id: string) =>
+  serialized(async () => {
+    const existing = await localGet<OutboxItem>('outbox', id);
+
+    await localPut('outbox', {
+      id,
+      userId,
+      kind: 'delete',
+      date,
+      queuedAt: existing?.queuedAt ?? new Date().toISOString(),
+      revision: (existing?.revision ?? 0) + 1,
+    } satisfies OutboxItem);
+  });
+
+// The day as it will be once the outbox has synced: each queued entry
+// replaces the server's copy, or removes it for a delete
+export const applyOutbox = (day: DayLog, date: string, items: OutboxItem[]): DayLog => {
+  let result: DayLog = { ...day, unsynced: {} };
+  for (const item of items) {
+    result = withoutEntry(result, item.id);
+    if (item.entry && item.date === date) {
+      result = withEntry(result, item.entry);
+      result.unsynced[item.id] = item.error ?? null;
+    }
+  }
+  return result;
+};
+
+// What sending a change came to: the entry as the server saved it (null for a
+// delete), or why it was dropped because the entry changed on another device
+// since it was made
+type Sent = { saved: FoodEntry | null } | { conflict: string };
+
+const send = async (item: OutboxItem): Promise<Sent> => {
+  if (item.kind === 'delete') {
+    await deleteLoggedFood(item.id);
+    return { saved: null };
+  }
+
+  if (item.kind === 'add') {
+    try {
+      return { saved: await logFood(item.input) };
+    } catch (error) {
+      // Sent before, but the reply never arrived
+      if (!isDuplicateError(error)) throw error;
+      return { saved: await repository.entries.get(item.id) };
+    }
+  }
+
+  // Whichever edit reached the server first wins; the other is dropped
+  const name = item.entry.food_name;
+  const current = await repository.entries.get(item.id);
+  if (!current) return { conflict: `${name} was deleted on another device, so your changes to it weren't saved` };
+  if (current.updated_at !== item.baseUpdatedAt) {
+    return { conflict: `${name} was changed on another device, so your changes to it weren't saved` };
+  }
+
+  return { saved: await updateLoggedFood(item.id, item.input) };
+};
+
+// Clears a sent item. If it changed while being sent, the newer change stays
+// queued, made against the version the server now has.
+const settle = async (item: OutboxItem, saved: FoodEntry | null) => {
+  await serialized(async () => {
+    const current = await localGet<OutboxItem>('outbox', item.id);
+    if (!current) return;
+    if (current.revision === item.revision) {
+      await localDelete('outbox', item.id);
+    } else if (current.kind !== 'delete' && saved) {
+      await localPut('outbox', { ...current, kind: 'update', baseUpdatedAt: saved.updated_at, error: undefined });
+    }
+  });
+};
+
+const markFailed = (item: OutboxItem, error: unknown) =>
+  serialized(async () => {
+    const current = await localGet<OutboxItem>('outbox', item.id);
+    if (current?.revision === item.revision) await localPut('outbox', { ...current, error: errorMessage(error) });
+  });
+
+const drop = (item: OutboxItem) => serialized(() => localDelete('outbox', item.id));
+
+const runSync = async (): Promise<SyncResult> => {
+  const result: SyncResult = { synced: 0, failed: 0, conflicts: [], saved: [] };
+  const userId = await repository.currentUserId();
+  if (!userId) return result;
+
+  for (const item of await listOutbox(userId)) {
+    try {
+      const sent = await send(item);
+      if ('conflict' in sent) {
+        result.conflicts.push(sent.conflict);
+        await drop(item);
+      } else {
+        await settle(item, sent.saved);
+        if (sent.saved) result.saved.push(sent.saved);
+        result.synced++;
+      }
+    } catch (error) {
+      // The rest wait for the connection to come back
+      if (isOfflineError(error)) break;
+      console.error('Error syncing entry:', error);
+      await markFailed(item, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+};
+
+let syncing: Promise<SyncResult> | null = null;
+let syncAgain = false;
+
+// Sends everything queued, oldest first. Calls made while a sync is running
+// share it, and it goes round again to pick up what they queued. Only one
+// tab syncs at a time.
+export const syncOutbox = (): Promise<SyncResult> => {
+  if (syncing) {
+    syncAgain = true;
+    return syncing;
+  }
+
+  const run = async () => {
+    const total: SyncResult = { synced: 0, failed: 0, conflicts: [], saved: [] };
+    do {
+      syncAgain = false;
+      const result = await (navigator.locks ? navigator.locks.request(SYNC_LOCK, runSync) : runSync());
+      total.synced += result.synced;
+      total.failed += result.failed;
+      total.conflicts.push(...result.conflicts);
+      total.saved.push(...result.saved);
+    } while (syncAgain);
+    return total;
+  };
+
+  syncing = run().finally(() => {
+    syncing = null;
+  });
+  return syncing;
+};
@@ -0,0 +1,14 @@
+import { repository } from './repositories';
+
+export type { CatalogProduct, Food } from './repositories';
+
+export const findProduct = async (barcode: string) => {
+  const userId = await repository.currentUserId();
+  if (!userId) return null;
+
+  return repository.products.find(userId, barcode);
+};
+
+// Points a barcode at a food, replacing whatever it was linked to before
+export const saveProduct = (userId: string, barcode: string, foodId: string) =>
+  repository.products.save(userId, barcode, foodId);
@@ -0,0 +1,23 @@
+import { deviceTimeZone } from './dates';
+import { repository } from './repositories';
+
+// The zone dates are worked out in: the profile's, or the device's when the
+// profile leaves it unset
+export interface TimeZoneSetting {
+  timeZone: string;
+  automatic: boolean;
+}
+
+export const loadTimeZone = async (): Promise<TimeZoneSetting> => {
+  const automatic = { timeZone: deviceTimeZone(), automatic: true };
+
+  const userId = await repository.currentUserId();
+  if (!userId) return automatic;
+
+  const profile = await repository.profiles.get(userId);
+  return profile?.time_zone ? { timeZone: profile.time_zone, automatic: false } : automatic;
+};
+
+// null goes back to following the device
+export const saveTimeZone = (userId: string, timeZone: string | null) =>
+  repository.profiles.save(userId, { time_zone: timeZone });
@@ -0,0 +1,43 @@
+// Installs the service worker built from src/service-worker.ts, which keeps
+// the app working offline, and reports when a newer version is ready. Only
+// production builds have one.
+
+export const registerServiceWorker = async (onUpdateReady: (applyUpdate: () => void) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+
+    // Lets the waiting version take over, then reloads onto it
+    const applyUpdate = () => {
+      const waiting = registration.waiting;
+      if (!waiting) return;
+      navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+      waiting.postMessage({ type: 'SKIP_WAITING' });
+    };
+
+    // A waiting version with nothing in control is the first install, which
+    // takes over by itself
+    const checkWaiting = () => {
+      if (registration.waiting && navigator.serviceWorker.controller) onUpdateReady(applyUpdate);
+    };
+
+    checkWaiting();
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed') checkWaiting();
+      });
+    });
+
+    // An app launched from the home screen can stay open for days without
+    // navigating, which is when browsers look for updates themselves
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState !== 'visible') return;
+      registration.update().catch(() => undefined);
+      checkWaiting();
+    });
+  } catch (error) {
+    console.error('Error registering service worker:', error);
+  }
+};
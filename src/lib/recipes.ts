@@ -0,0 +1,130 @@
+import { TablesUpdate } from '@/integrations/supabase/types';
+import { toAllergens } from './allergens';
+import { foodColumn, fromColumns, MACRONUTRIENT_KEYS, NUTRIENT_KEYS, NutrientValues, scaleNutrients, toColumns } from './nutrients';
+import { Food } from './products';
+import { repository } from './repositories';
+import { parseServingSize, toServings } from './servings';
+
+// 'serving' counts servings of the food; 'amount' is grams or ml of it
+export type IngredientUnit = 'serving' | 'amount';
+// A recipe makes a number of servings, or a cooked weight in grams
+export type YieldUnit = 'serving' | 'g';
+
+export interface RecipeIngredient {
+  food: Food;
+  amount: number;
+  unit: IngredientUnit;
+}
+
+export interface RecipeYield {
+  amount: number;
+  unit: YieldUnit;
+}
+
+export interface Recipe {
+  // Unset until the recipe is first saved
+  id?: string;
+  name: string;
+  ingredients: RecipeIngredient[];
+  yield: RecipeYield;
+}
+
+// A recipe yielding a weight is logged in servings of this many grams
+const GRAM_SERVING = 100;
+
+// Servings of the ingredient's food, or null when a weight is given for a
+// food whose serving has no weight
+export const ingredientServings = ({ food, amount, unit }: RecipeIngredient) =>
+  toServings(amount, unit, parseServingSize(food.serving_size ?? ''));
+
+// The whole batch. A nutrient none of the ingredients list stays unknown;
+// otherwise the known amounts are added up.
+export const recipeTotals = (ingredients: RecipeIngredient[]): NutrientValues => {
+  const totals: NutrientValues = {};
+  for (const ingredient of ingredients) {
+    const values = scaleNutrients(fromColumns(ingredient.food, foodColumn), ingredientServings(ingredient) ?? 0);
+    for (const key of NUTRIENT_KEYS) {
+      if (values[key] !== undefined) totals[key] = (totals[key] ?? 0) + values[key];
+    }
+  }
+  for (const key of MACRONUTRIENT_KEYS) totals[key] ??= 0;
+  return totals;
+};
+
+export const recipeServings = ({ amount, unit }: RecipeYield) => (unit === 'g' ? amount / GRAM_SERVING : amount);
+
+export const recipePerServing = (recipe: Recipe): NutrientValues =>
+  scaleNutrients(recipeTotals(recipe.ingredients), 1 / recipeServings(recipe.yield));
+
+// Everything on the recipe's foods row that comes from its ingredients
+const recipeColumns = (recipe: Recipe) => {
+  const perServing = recipePerServing(recipe);
+  const allergens = new Set(recipe.ingredients.flatMap(({ food }) => toAllergens(food.allergens)));
+
+  return {
+    name: recipe.name,
+    brand: null,
+    calories_per_serving: perServing.calories,
+    ...toColumns(perServing, foodColumn),
+    serving_size: recipe.yield.unit === 'g' ? `${GRAM_SERVING}g` : '1 serving',
+    servings_per_container: Math.round(recipeServings(recipe.yield) * 10) / 10,
+    ingredients: recipe.ingredients.map(({ food }) => food.name),
+    allergens: [...allergens],
+    less_than: [],
+    is_recipe: true,
+    recipe_yield: recipe.yield.amount,
+    recipe_yield_unit: recipe.yield.unit,
+  } satisfies TablesUpdate<'foods'>;
+};
+
+export const loadRecipe = async (id: string): Promise<Recipe> => {
+  const food = await repository.foods.get(id);
+  if (!food) throw new Error(`No recipe with id ${id}`);
+
+  const rows = await repository.ingredients.listForRecipe(id);
+
+  return {
+    id,
+    name: food.name,
+    ingredients: rows.map((row) => ({
+      food: row.food,
+      amount: row.amount,
+      unit: row.unit as IngredientUnit,
+    })),
+    yield: {
+      amount: food.recipe_yield ?? food.servings_per_container ?? 1,
+      unit: (food.recipe_yield_unit as YieldUnit) ?? 'serving',
+    },
+  };
+};
+
+export const saveRecipe = async (userId: string, recipe: Recipe): Promise<Food> => {
+  const columns = recipeColumns(recipe);
+  const food = recipe.id
+    ? await repository.foods.update(recipe.id, columns)
+    : await repository.foods.insert({ ...columns, user_id: userId });
+
+  await repository.ingredients.replace(
+    userId,
+    food.id,
+    recipe.ingredients.map(({ food, amount, unit }) => ({ food_id: food.id, amount, unit }))
+  );
+
+  // This recipe may itself be an ingredient of another
+  await recalculateRecipesUsing(food.id);
+  return food;
+};
+
+// Call after changing a food, so every recipe it's in (and every recipe
+// those are in) picks up the new values
+export const recalculateRecipesUsing = async (foodId: string, seen = new Set<string>([foodId])) => {
+  for (const recipeId of await repository.ingredients.listRecipesUsing(foodId)) {
+    if (seen.has(recipeId)) continue;
+    seen.add(recipeId);
+
+    const recipe = await loadRecipe(recipeId);
+    await repository.foods.update(recipeId, recipeColumns(recipe));
+
+    await recalculateRecipesUsing(recipeId, seen);
+  }
+};
@@ -0,0 +1,15 @@
+import { supabase } from '@/integrations/supabase/client';
+import { createMemoryRepository } from './memory';
+import { createSupabaseRepository } from './supabase';
+
+export { createMemoryRepository, LOCAL_USER_ID } from './memory';
+export { createSupabaseRepository } from './supabase';
+export * from './types';
+
+// Set VITE_DATA_BACKEND=local to run the app against a browser-only store
+// instead of the Supabase project, with no sign-in
+export const isLocalBackend = import.meta.env.VITE_DATA_BACKEND === 'local';
+
+export const repository = isLocalBackend
+  ? createMemoryRepository({ persistAs: 'daily-diet-scan' })
+  : createSupabaseRepository(supabase);
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryRepository, LOCAL_USER_ID } from './memory';
+
+const food = (name: string, brand: string | null) => ({
+  user_id: LOCAL_USER_ID,
+  name,
+  brand,
+  calories_per_serving: 100,
+});
+
+describe('memory repository foods', () => {
+  it('upserts on name and brand', async () => {
+    const repository = createMemoryRepository();
+    const first = await repository.foods.upsert(food('Oats', 'Quaker'));
+    const second = await repository.foods.upsert({ ...food('Oats', 'Quaker'), calories_per_serving: 150 });
+
+    expect(second.id).toBe(first.id);
+    expect(await repository.foods.list(LOCAL_USER_ID)).toHaveLength(1);
+  });
+
+  // As in Postgres, where NULLs never equal one another
+  it('never treats two foods without a brand as the same', async () => {
+    const repository = createMemoryRepository();
+    const first = await repository.foods.upsert(food('Banana', null));
+    const second = await repository.foods.upsert(food('Banana', null));
+
+    expect(second.id).not.toBe(first.id);
+  });
+
+  it('refuses to delete a food a recipe still uses', async () => {
+    const repository = createMemoryRepository();
+    const oats = await repository.foods.insert(food('Oats', null));
+    const porridge = await repository.foods.insert({ ...food('Porridge', null), is_recipe: true });
+    await repository.ingredients.replace(LOCAL_USER_ID, porridge.id, [{ food_id: oats.id, amount: 1, unit: 'serving' }]);
+
+    await expect(repository.foods.remove([oats.id])).rejects.toMatchObject({ code: '23503' });
+    await repository.foods.remove([porridge.id, oats.id]);
+    expect(await repository.foods.list(LOCAL_USER_ID)).toEqual([]);
+  });
+});
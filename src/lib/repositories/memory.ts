@@ -0,0 +1,462 @@
+import { TablesInsert } from '@/integrations/supabase/types';
+import { NutrientKey } from '@/types/nutrition';
+import {
+  entryColumn,
+  foodColumn,
+  fromColumns,
+  MACRONUTRIENT_KEYS,
+  MICRONUTRIENT_KEYS,
+  NUTRIENT_KEYS,
+  totalColumn,
+} from '../nutrients';
+import { DailyLog, Food, FoodEntry, MealGoalRow, Product, Profile, RecipeIngredientRow, Repository } from './types';
+
+export interface MemoryTables {
+  daily_logs: DailyLog[];
+  food_entries: FoodEntry[];
+  foods: Food[];
+  products: Product[];
+  recipe_ingredients: RecipeIngredientRow[];
+  meal_goals: MealGoalRow[];
+  profiles: Profile[];
+}
+
+export interface MemoryRepositoryOptions {
+  // Who counts as signed in; defaults to a single local user
+  userId?: string;
+  // Keeps the tables in this IndexedDB database so they survive reloads;
+  // without it everything is gone when the page closes
+  persistAs?: string;
+  // Rows to start from when nothing has been persisted yet
+  seed?: Partial<MemoryTables>;
+}
+
+export const LOCAL_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+const STORE = 'tables';
+const SNAPSHOT_KEY = 'snapshot';
+
+const emptyTables = (): MemoryTables => ({
+  daily_logs: [],
+  food_entries: [],
+  foods: [],
+  products: [],
+  recipe_ingredients: [],
+  meal_goals: [],
+  profiles: [],
+});
+
+// Errors shaped like the ones Postgres reports through Supabase
+const databaseError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+const duplicateKeyError = (constraint: string) =>
+  databaseError('23505', `duplicate key value violates unique constraint "${constraint}"`);
+
+// Columns a nutrient key fills with nothing: 0 for the required macros, null
+// for micronutrients that weren't given
+const blankNutrients = (column: (key: NutrientKey) => string) => ({
+  ...Object.fromEntries(MACRONUTRIENT_KEYS.map((key) => [column(key), 0])),
+  ...Object.fromEntries(MICRONUTRIENT_KEYS.map((key) => [column(key), null])),
+});
+
+const openDatabase = (name: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readSnapshot = async (name: string) => {
+  const db = await openDatabase(name);
+  return new Promise<MemoryTables | undefined>((resolve, reject) => {
+    const request = db.transaction(STORE).objectStore(STORE).get(SNAPSHOT_KEY);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).finally(() => db.close());
+};
+
+const writeSnapshot = async (name: string, tables: MemoryTables) => {
+  const db = await openDatabase(name);
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    transaction.objectStore(STORE).put(tables, SNAPSHOT_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  }).finally(() => db.close());
+};
+
+// A stand-in for the Supabase backend that runs entirely in the browser (or
+// in a test). It mirrors what the database does for us: defaults, the
+// name/brand conflict on foods, foreign keys, and the triggers that keep log
+// totals and updated_at in step.
+export const createMemoryRepository = ({
+  userId = LOCAL_USER_ID,
+  persistAs,
+  seed,
+}: MemoryRepositoryOptions = {}): Repository => {
+  let tables: MemoryTables = { ...emptyTables(), ...structuredClone(seed) };
+
+  const ready = persistAs
+    ? readSnapshot(persistAs).then((saved) => {
+        if (saved) tables = { ...emptyTables(), ...saved };
+      })
+    : Promise.resolve();
+
+  // Each call waits for the persisted tables, and each change is written
+  // back before it resolves
+  const read = async <T>(query: (tables: MemoryTables) => T): Promise<T> => {
+    await ready;
+    return structuredClone(query(tables));
+  };
+
+  const write = async <T>(change: (tables: MemoryTables) => T): Promise<T> => {
+    await ready;
+    const result = change(tables);
+    if (persistAs) await writeSnapshot(persistAs, tables);
+    return structuredClone(result);
+  };
+
+  const now = () => new Date().toISOString();
+
+  const sumEntries = (dailyLogId: string) => {
+    const totals = Object.fromEntries(NUTRIENT_KEYS.map((key) => [totalColumn(key), 0]));
+    for (const entry of tables.food_entries.filter((e) => e.daily_log_id === dailyLogId)) {
+      const values = fromColumns(entry, entryColumn);
+      for (const key of NUTRIENT_KEYS) totals[totalColumn(key)] += values[key] ?? 0;
+    }
+    return totals;
+  };
+
+  // What the food_entries trigger does after every change
+  const recalculate = (...dailyLogIds: string[]) => {
+    for (const id of new Set(dailyLogIds)) {
+      const log = tables.daily_logs.find((l) => l.id === id);
+      if (log) Object.assign(log, sumEntries(id), { updated_at: now() });
+    }
+  };
+
+  const findEntry = (id: string) => {
+    const entry = tables.food_entries.find((e) => e.id === id);
+    if (!entry) throw new Error(`No food entry with id ${id}`);
+    return entry;
+  };
+
+  const findFood = (id: string) => {
+    const food = tables.foods.find((f) => f.id === id);
+    if (!food) throw new Error(`No food with id ${id}`);
+    return food;
+  };
+
+  const newFood = (values: TablesInsert<'foods'>) =>
+    ({
+      ...blankNutrients(foodColumn),
+      id: crypto.randomUUID(),
+      created_at: now(),
+      updated_at: now(),
+      brand: null,
+      serving_size: null,
+      servings_per_container: null,
+      ingredients: null,
+      allergens: [],
+      less_than: [],
+      is_recipe: false,
+      recipe_yield: null,
+      recipe_yield_unit: null,
+      ...values,
+    }) as Food;
+
+  // Another of the user's foods with this name and brand. NULL brands are
+  // distinct in Postgres, so a food without one never clashes.
+  const clashingFood = ({ id, user_id, name, brand }: Pick<Food, 'user_id' | 'name' | 'brand'> & { id?: string }) =>
+    brand == null
+      ? undefined
+      : tables.foods.find((f) => f.id !== id && f.user_id === user_id && f.name === name && f.brand === brand);
+
+  // Points entries at another food, or at none; the entries' updated_at
+  // trigger fires as it would for any other change
+  const relinkEntries = (fromIds: string[], toId: string | null) => {
+    for (const entry of tables.food_entries.filter((e) => fromIds.includes(e.food_id))) {
+      Object.assign(entry, { food_id: toId, updated_at: now() });
+    }
+  };
+
+  return {
+    currentUserId: async () => userId,
+
+    logs: {
+      findByDate: (owner, date) =>
+        read(({ daily_logs }) => daily_logs.find((l) => l.user_id === owner && l.date === date) ?? null),
+
+      getOrCreate: (date) =>
+        write(({ daily_logs }) => {
+          const existing = daily_logs.find((l) => l.user_id === userId && l.date === date);
+          if (existing) return existing.id;
+
+          const log = {
+            id: crypto.randomUUID(),
+            user_id: userId,
+            date,
+            created_at: now(),
+            updated_at: now(),
+            ...Object.fromEntries(NUTRIENT_KEYS.map((key) => [totalColumn(key), 0])),
+          } as DailyLog;
+          daily_logs.push(log);
+          return log.id;
+        }),
+
+      reconcile: () =>
+        write(({ daily_logs }) => {
+          let repaired = 0;
+          for (const log of daily_logs.filter((l) => l.user_id === userId)) {
+            const totals = sumEntries(log.id);
+            if (Object.entries(totals).some(([column, total]) => log[column] !== total)) {
+              recalculate(log.id);
+              repaired++;
+            }
+          }
+          return repaired;
+        }),
+    },
+
+    entries: {
+      get: (id) => read(({ food_entries }) => food_entries.find((e) => e.id === id) ?? null),
+
+      listForLog: (dailyLogId) =>
+        read(({ food_entries }) =>
+          food_entries
+            .filter((e) => e.daily_log_id === dailyLogId)
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        ),
+
+      listWithoutTimeZone: (owner) =>
+        read(({ food_entries, daily_logs }) =>
+          food_entries
+            .filter((e) => e.user_id === owner && e.time_zone === null)
+            .map((e) => ({ ...e, date: daily_logs.find((l) => l.id === e.daily_log_id)?.date }))
+        ),
+
+      listFoodUses: (foodIds) =>
+        read(({ food_entries }) =>
+          food_entries
+            .filter((e) => e.user_id === userId && e.food_id !== null && (!foodIds || foodIds.includes(e.food_id)))
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))
+            .map(({ food_id, created_at }) => ({ food_id, created_at }))
+        ),
+
+      insert: (values: TablesInsert<'food_entries'>) =>
+        write(({ food_entries }) => {
+          if (values.id && food_entries.some((e) => e.id === values.id)) {
+            throw duplicateKeyError('food_entries_pkey');
+          }
+
+          const entry = {
+            ...blankNutrients(entryColumn),
+            id: crypto.randomUUID(),
+            created_at: now(),
+            updated_at: now(),
+            food_brand: null,
+            food_id: null,
+            quantity: 1,
+            meal: 'snack',
+            time_zone: null,
+            allergens: [],
+            less_than: [],
+            ...values,
+          } as FoodEntry;
+          food_entries.push(entry);
+          recalculate(entry.daily_log_id);
+          return entry;
+        }),
+
+      update: (id, changes) =>
+        write(() => {
+          const entry = findEntry(id);
+          const previousLogId = entry.daily_log_id;
+          Object.assign(entry, changes, { updated_at: now() });
+          recalculate(previousLogId, entry.daily_log_id);
+          return entry;
+        }),
+
+      remove: (id) =>
+        write(({ food_entries }) => {
+          const entry = findEntry(id);
+          food_entries.splice(food_entries.indexOf(entry), 1);
+          recalculate(entry.daily_log_id);
+        }),
+    },
+
+    foods: {
+      get: (id) => read(({ foods }) => foods.find((f) => f.id === id) ?? null),
+
+      search: (owner, words, limit) =>
+        read(({ foods }) =>
+          foods
+            .filter(
+              (f) =>
+                f.user_id === owner &&
+                words.every((word) =>
+                  [f.name, f.brand ?? ''].some((text) => text.toLowerCase().includes(word.toLowerCase()))
+                )
+            )
+            .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+            .slice(0, limit)
+        ),
+
+      list: (owner) =>
+        read(({ foods }) => foods.filter((f) => f.user_id === owner).sort((a, b) => a.name.localeCompare(b.name))),
+
+      insert: (values) =>
+        write(({ foods }) => {
+          if (clashingFood({ ...values, brand: values.brand ?? null })) {
+            throw duplicateKeyError('foods_user_id_name_brand_key');
+          }
+
+          const food = newFood(values);
+          foods.push(food);
+          return food;
+        }),
+
+      upsert: (values) =>
+        write(({ foods }) => {
+          const existing = clashingFood({ ...values, brand: values.brand ?? null });
+          if (existing) {
+            Object.assign(existing, values, { updated_at: now() });
+            return existing;
+          }
+
+          const food = newFood(values);
+          foods.push(food);
+          return food;
+        }),
+
+      update: (id, changes) =>
+        write(() => {
+          const food = findFood(id);
+          if (clashingFood({ ...food, ...changes })) throw duplicateKeyError('foods_user_id_name_brand_key');
+          return Object.assign(food, changes, { updated_at: now() });
+        }),
+
+      remove: (ids) =>
+        write((t) => {
+          // recipe_ingredients.food_id is ON DELETE RESTRICT; a recipe's own
+          // ingredient rows go with it
+          if (t.recipe_ingredients.some((i) => ids.includes(i.food_id) && !ids.includes(i.recipe_id))) {
+            throw databaseError('23503', 'update or delete on table "foods" violates foreign key constraint');
+          }
+
+          relinkEntries(ids, null);
+          t.products = t.products.filter((p) => !ids.includes(p.food_id));
+          t.recipe_ingredients = t.recipe_ingredients.filter((i) => !ids.includes(i.recipe_id));
+          t.foods = t.foods.filter((f) => !ids.includes(f.id));
+        }),
+
+      merge: (keepId, duplicateIds) =>
+        write((t) => {
+          relinkEntries(duplicateIds, keepId);
+          for (const product of t.products.filter((p) => duplicateIds.includes(p.food_id))) product.food_id = keepId;
+          for (const ingredient of t.recipe_ingredients.filter((i) => duplicateIds.includes(i.food_id))) {
+            ingredient.food_id = keepId;
+          }
+          t.recipe_ingredients = t.recipe_ingredients.filter((i) => !duplicateIds.includes(i.recipe_id));
+          t.foods = t.foods.filter((f) => !duplicateIds.includes(f.id));
+        }),
+    },
+
+    products: {
+      find: (owner, barcode) =>
+        read(({ products, foods }) => {
+          const product = products.find((p) => p.user_id === owner && p.barcode === barcode);
+          const food = product && foods.find((f) => f.id === product.food_id);
+          return food ? { barcode, food } : null;
+        }),
+
+      save: (owner, barcode, foodId) =>
+        write(({ products }) => {
+          const existing = products.find((p) => p.user_id === owner && p.barcode === barcode);
+          if (existing) {
+            existing.food_id = foodId;
+            return;
+          }
+          products.push({ id: crypto.randomUUID(), created_at: now(), user_id: owner, barcode, food_id: foodId });
+        }),
+    },
+
+    ingredients: {
+      listForRecipe: (recipeId) =>
+        read(({ recipe_ingredients, foods }) =>
+          recipe_ingredients
+            .filter((i) => i.recipe_id === recipeId)
+            .sort((a, b) => a.position - b.position)
+            .map(({ amount, unit, food_id }) => ({ amount, unit, food: foods.find((f) => f.id === food_id) }))
+        ),
+
+      listRecipesUsing: (foodId) =>
+        read(({ recipe_ingredients }) => [
+          ...new Set(recipe_ingredients.filter((i) => i.food_id === foodId).map((i) => i.recipe_id)),
+        ]),
+
+      replace: (owner, recipeId, ingredients) =>
+        write((t) => {
+          t.recipe_ingredients = [
+            ...t.recipe_ingredients.filter((i) => i.recipe_id !== recipeId),
+            ...ingredients.map((ingredient, position) => ({
+              ...ingredient,
+              id: crypto.randomUUID(),
+              created_at: now(),
+              user_id: owner,
+              recipe_id: recipeId,
+              position,
+            })),
+          ];
+        }),
+    },
+
+    mealGoals: {
+      list: (owner) => read(({ meal_goals }) => meal_goals.filter((g) => g.user_id === owner)),
+
+      save: (goal) =>
+        write(({ meal_goals }) => {
+          const existing = meal_goals.find((g) => g.user_id === goal.user_id && g.meal === goal.meal);
+          if (existing) {
+            Object.assign(existing, goal);
+            return;
+          }
+          meal_goals.push({
+            id: crypto.randomUUID(),
+            created_at: now(),
+            updated_at: now(),
+            calories: null,
+            protein: null,
+            carbs: null,
+            fat: null,
+            ...goal,
+          });
+        }),
+    },
+
+    profiles: {
+      get: (owner) => read(({ profiles }) => profiles.find((p) => p.user_id === owner) ?? null),
+
+      save: (owner, changes) =>
+        write(({ profiles }) => {
+          const existing = profiles.find((p) => p.user_id === owner);
+          if (existing) {
+            Object.assign(existing, changes, { updated_at: now() });
+            return;
+          }
+
+          profiles.push({
+            id: crypto.randomUUID(),
+            created_at: now(),
+            updated_at: now(),
+            email: null,
+            full_name: null,
+            time_zone: null,
+            ...changes,
+            user_id: owner,
+          } as Profile);
+        }),
+    },
+  };
+};
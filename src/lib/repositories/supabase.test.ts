@@ -0,0 +1,66 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it } from 'vitest';
+import { Database } from '@/integrations/supabase/types';
+import { createSupabaseRepository } from './supabase';
+
+type Row = Record<string, unknown>;
+
+// Just enough of the query builder for foods.remove, over plain arrays.
+// Deleting a food a recipe ingredient points at fails the way
+// recipe_ingredients_food_id_fkey (ON DELETE RESTRICT) does.
+const fakeClient = (tables: Record<string, Row[]>) => {
+  const from = (table: string) => {
+    let action: { type: 'select' } | { type: 'update'; changes: Row } | { type: 'delete' } = { type: 'select' };
+    const filters: ((row: Row) => boolean)[] = [];
+
+    const run = () => {
+      const rows = tables[table].filter((row) => filters.every((filter) => filter(row)));
+      if (action.type === 'update') {
+        for (const row of rows) Object.assign(row, action.changes);
+      }
+      if (action.type === 'delete') {
+        const ids = rows.map((row) => row.id);
+        if (table === 'foods' && tables.recipe_ingredients.some((i) => ids.includes(i.food_id))) {
+          return { data: null, error: { code: '23503', message: 'violates foreign key constraint' } };
+        }
+        tables[table] = tables[table].filter((row) => !rows.includes(row));
+      }
+      return { data: rows, error: null };
+    };
+
+    const builder = {
+      select: () => builder,
+      update: (changes: Row) => {
+        action = { type: 'update', changes };
+        return builder;
+      },
+      delete: () => {
+        action = { type: 'delete' };
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      then: (resolve: (result: ReturnType<typeof run>) => void) => resolve(run()),
+    };
+    return builder;
+  };
+
+  return { from } as unknown as SupabaseClient<Database>;
+};
+
+describe('supabase repository foods', () => {
+  it('refuses to delete a food a recipe still uses', async () => {
+    const tables: Record<string, Row[]> = {
+      foods: [{ id: 'oats' }, { id: 'porridge' }],
+      food_entries: [{ id: 'breakfast', food_id: 'oats' }],
+      recipe_ingredients: [{ id: 'ingredient', recipe_id: 'porridge', food_id: 'oats' }],
+    };
+    const repository = createSupabaseRepository(fakeClient(tables));
+
+    await expect(repository.foods.remove(['oats'])).rejects.toMatchObject({ code: '23503' });
+    expect(tables.food_entries).toEqual([{ id: 'breakfast', food_id: 'oats' }]);
+    expect(tables.foods).toHaveLength(2);
+  });
+});
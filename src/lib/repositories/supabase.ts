@@ -0,0 +1,244 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/integrations/supabase/types';
+import { Repository } from './types';
+
+// Totals, log creation and merging foods are left to the database's own
+// functions and triggers; see the daily_log_totals and merge_foods migrations
+export const createSupabaseRepository = (client: SupabaseClient<Database>): Repository => ({
+  currentUserId: async () => {
+    const { data: { session } } = await client.auth.getSession();
+    return session?.user.id ?? null;
+  },
+
+  logs: {
+    findByDate: async (userId, date) => {
+      const { data, error } = await client
+        .from('daily_logs')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('date', date)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    getOrCreate: async (date) => {
+      const { data, error } = await client.rpc('get_or_create_daily_log', { p_date: date });
+      if (error) throw error;
+      return data;
+    },
+
+    reconcile: async () => {
+      const { data, error } = await client.rpc('reconcile_daily_logs');
+      if (error) throw error;
+      return data;
+    },
+  },
+
+  entries: {
+    get: async (id) => {
+      const { data, error } = await client.from('food_entries').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    listForLog: async (dailyLogId) => {
+      const { data, error } = await client
+        .from('food_entries')
+        .select('*')
+        .eq('daily_log_id', dailyLogId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+
+    listWithoutTimeZone: async (userId) => {
+      const { data, error } = await client
+        .from('food_entries')
+        .select('*, daily_logs(date)')
+        .eq('user_id', userId)
+        .is('time_zone', null);
+      if (error) throw error;
+      return data.map(({ daily_logs, ...entry }) => ({ ...entry, date: daily_logs?.date }));
+    },
+
+    listFoodUses: async (foodIds) => {
+      let request = client.from('food_entries').select('food_id, created_at').not('food_id', 'is', null);
+      if (foodIds) request = request.in('food_id', foodIds);
+      const { data, error } = await request.order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+
+    insert: async (entry) => {
+      const { data, error } = await client.from('food_entries').insert(entry).select().single();
+      if (error) throw error;
+      return data;
+    },
+
+    update: async (id, changes) => {
+      const { data, error } = await client.from('food_entries').update(changes).eq('id', id).select().single();
+      if (error) throw error;
+      return data;
+    },
+
+    remove: async (id) => {
+      const { error } = await client.from('food_entries').delete().eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  foods: {
+    get: async (id) => {
+      const { data, error } = await client.from('foods').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    search: async (userId, words, limit) => {
+      let request = client.from('foods').select('*').eq('user_id', userId);
+      for (const word of words) request = request.or(`name.ilike.*${word}*,brand.ilike.*${word}*`);
+      const { data, error } = await request.order('updated_at', { ascending: false }).limit(limit);
+      if (error) throw error;
+      return data;
+    },
+
+    list: async (userId) => {
+      const { data, error } = await client.from('foods').select('*').eq('user_id', userId).order('name');
+      if (error) throw error;
+      return data;
+    },
+
+    insert: async (food) => {
+      const { data, error } = await client.from('foods').insert(food).select().single();
+      if (error) throw error;
+      return data;
+    },
+
+    upsert: async (food) => {
+      const { data, error } = await client
+        .from('foods')
+        .upsert(food, { onConflict: 'user_id,name,brand' })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+
+    update: async (id, changes) => {
+      const { data, error } = await client.from('foods').update(changes).eq('id', id).select().single();
+      if (error) throw error;
+      return data;
+    },
+
+    remove: async (ids) => {
+      // recipe_ingredients.food_id is ON DELETE RESTRICT, so a food still in
+      // a recipe would fail the delete below after its entries were already
+      // unlinked. Refuse up front instead; a recipe's own ingredient rows go
+      // with it.
+      const { data: uses, error: usesError } = await client
+        .from('recipe_ingredients')
+        .select('recipe_id')
+        .in('food_id', ids);
+      if (usesError) throw usesError;
+      if (uses.some((use) => !ids.includes(use.recipe_id))) {
+        throw new PostgrestError({
+          code: '23503',
+          message: 'update or delete on table "foods" violates foreign key constraint',
+          details: 'A food is still used in a recipe',
+          hint: '',
+        });
+      }
+
+      const { error: unlinkError } = await client.from('food_entries').update({ food_id: null }).in('food_id', ids);
+      if (unlinkError) throw unlinkError;
+
+      const { error } = await client.from('foods').delete().in('id', ids);
+      if (error) throw error;
+    },
+
+    merge: async (keepId, duplicateIds) => {
+      const { error } = await client.rpc('merge_foods', { keep_id: keepId, duplicate_ids: duplicateIds });
+      if (error) throw error;
+    },
+  },
+
+  products: {
+    find: async (userId, barcode) => {
+      const { data, error } = await client
+        .from('products')
+        .select('barcode, foods(*)')
+        .eq('user_id', userId)
+        .eq('barcode', barcode)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.foods ? { barcode: data.barcode, food: data.foods } : null;
+    },
+
+    save: async (userId, barcode, foodId) => {
+      const { error } = await client
+        .from('products')
+        .upsert({ user_id: userId, barcode, food_id: foodId }, { onConflict: 'user_id,barcode' });
+      if (error) throw error;
+    },
+  },
+
+  ingredients: {
+    listForRecipe: async (recipeId) => {
+      const { data, error } = await client
+        .from('recipe_ingredients')
+        .select('amount, unit, foods!recipe_ingredients_food_id_fkey(*)')
+        .eq('recipe_id', recipeId)
+        .order('position');
+      if (error) throw error;
+      return data.map(({ foods, ...ingredient }) => ({ ...ingredient, food: foods }));
+    },
+
+    listRecipesUsing: async (foodId) => {
+      const { data, error } = await client.from('recipe_ingredients').select('recipe_id').eq('food_id', foodId);
+      if (error) throw error;
+      return [...new Set(data.map((row) => row.recipe_id))];
+    },
+
+    // Replaced wholesale; recipes are small
+    replace: async (userId, recipeId, ingredients) => {
+      const { error: deleteError } = await client.from('recipe_ingredients').delete().eq('recipe_id', recipeId);
+      if (deleteError) throw deleteError;
+
+      const { error } = await client.from('recipe_ingredients').insert(
+        ingredients.map((ingredient, position) => ({ ...ingredient, user_id: userId, recipe_id: recipeId, position }))
+      );
+      if (error) throw error;
+    },
+  },
+
+  mealGoals: {
+    list: async (userId) => {
+      const { data, error } = await client.from('meal_goals').select('*').eq('user_id', userId);
+      if (error) throw error;
+      return data;
+    },
+
+    save: async (goal) => {
+      const { error } = await client.from('meal_goals').upsert(goal, { onConflict: 'user_id,meal' });
+      if (error) throw error;
+    },
+  },
+
+  profiles: {
+    get: async (userId) => {
+      const { data, error } = await client.from('profiles').select('*').eq('user_id', userId).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    save: async (userId, changes) => {
+      const { data, error } = await client.from('profiles').update(changes).eq('user_id', userId).select('id');
+      if (error) throw error;
+      if (data.length > 0) return;
+
+      const { error: insertError } = await client.from('profiles').insert({ ...changes, user_id: userId });
+      if (insertError) throw insertError;
+    },
+  },
+});
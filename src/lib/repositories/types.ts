@@ -0,0 +1,112 @@
+import { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+export type DailyLog = Tables<'daily_logs'>;
+export type FoodEntry = Tables<'food_entries'>;
+export type Food = Tables<'foods'>;
+export type Profile = Tables<'profiles'>;
+export type Product = Tables<'products'>;
+export type RecipeIngredientRow = Tables<'recipe_ingredients'>;
+export type MealGoalRow = Tables<'meal_goals'>;
+
+// An entry along with the date of the log it's filed under
+export type FiledEntry = FoodEntry & { date: string };
+
+// When a food was logged
+export type FoodUse = Pick<FoodEntry, 'food_id' | 'created_at'>;
+
+// A scanned barcode and the saved food it belongs to
+export interface CatalogProduct {
+  barcode: string;
+  food: Food;
+}
+
+// An ingredient of a recipe along with the food it uses
+export type IngredientWithFood = Pick<RecipeIngredientRow, 'amount' | 'unit'> & { food: Food };
+
+// What replacing a recipe's ingredients takes; positions follow the order
+export type IngredientInput = Pick<RecipeIngredientRow, 'food_id' | 'amount' | 'unit'>;
+
+export interface DailyLogRepository {
+  findByDate(userId: string, date: string): Promise<DailyLog | null>;
+  // The signed-in user's log id; creates the log if the day has none yet
+  getOrCreate(date: string): Promise<string>;
+  // Re-sums the signed-in user's logs whose totals don't match their
+  // entries, returning how many were fixed
+  reconcile(): Promise<number>;
+}
+
+// Adding, changing or removing an entry keeps its log's totals in step
+export interface FoodEntryRepository {
+  get(id: string): Promise<FoodEntry | null>;
+  // Newest first
+  listForLog(dailyLogId: string): Promise<FoodEntry[]>;
+  // Entries logged before time zones were recorded
+  listWithoutTimeZone(userId: string): Promise<FiledEntry[]>;
+  // The signed-in user's entries linked to a food (one of foodIds, if
+  // given), newest first
+  listFoodUses(foodIds?: string[]): Promise<FoodUse[]>;
+  // Fails with code 23505 when an entry with the given id already exists
+  insert(entry: TablesInsert<'food_entries'>): Promise<FoodEntry>;
+  update(id: string, changes: TablesUpdate<'food_entries'>): Promise<FoodEntry>;
+  remove(id: string): Promise<void>;
+}
+
+// Names and brands are unique per user, except that foods without a brand
+// never clash, as in Postgres where NULLs are distinct
+export interface FoodRepository {
+  get(id: string): Promise<Food | null>;
+  // The user's foods with every word somewhere in the name or brand, most
+  // recently updated first
+  search(userId: string, words: string[], limit: number): Promise<Food[]>;
+  // All of the user's foods, by name
+  list(userId: string): Promise<Food[]>;
+  // Fails with code 23505 when the user has a food with the same name and brand
+  insert(food: TablesInsert<'foods'>): Promise<Food>;
+  // Replaces the user's food with the same name and brand, if there is one
+  upsert(food: TablesInsert<'foods'>): Promise<Food>;
+  update(id: string, changes: TablesUpdate<'foods'>): Promise<Food>;
+  // Entries logged with the foods keep their values and lose the link; their
+  // barcodes go with them. Fails while a food is still a recipe ingredient.
+  remove(ids: string[]): Promise<void>;
+  // Moves entries, barcodes and recipe ingredients from the duplicates onto
+  // the kept food, then deletes the duplicates
+  merge(keepId: string, duplicateIds: string[]): Promise<void>;
+}
+
+export interface ProductRepository {
+  find(userId: string, barcode: string): Promise<CatalogProduct | null>;
+  // Points the barcode at the food, replacing whatever it was linked to
+  save(userId: string, barcode: string, foodId: string): Promise<void>;
+}
+
+export interface RecipeIngredientRepository {
+  // In recipe order
+  listForRecipe(recipeId: string): Promise<IngredientWithFood[]>;
+  // Ids of the recipes the food is an ingredient of
+  listRecipesUsing(foodId: string): Promise<string[]>;
+  replace(userId: string, recipeId: string, ingredients: IngredientInput[]): Promise<void>;
+}
+
+export interface MealGoalRepository {
+  list(userId: string): Promise<MealGoalRow[]>;
+  // Replaces the user's goals for the same meal, if there are any
+  save(goal: TablesInsert<'meal_goals'>): Promise<void>;
+}
+
+export interface ProfileRepository {
+  get(userId: string): Promise<Profile | null>;
+  // Creates the profile if the user has none yet
+  save(userId: string, changes: TablesUpdate<'profiles'>): Promise<void>;
+}
+
+export interface Repository {
+  // The signed-in user's id, or null when signed out
+  currentUserId(): Promise<string | null>;
+  logs: DailyLogRepository;
+  entries: FoodEntryRepository;
+  foods: FoodRepository;
+  products: ProductRepository;
+  ingredients: RecipeIngredientRepository;
+  mealGoals: MealGoalRepository;
+  profiles: ProfileRepository;
+}
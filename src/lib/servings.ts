@@ -0,0 +1,45 @@
+import { ServingInfo } from '@/types/nutrition';
+
+// How the amount eaten is expressed in FoodForm
+export type QuantityUnit = 'serving' | 'amount' | 'container';
+
+const WEIGHT = /(\d+(?:[.,]\d+)?)\s*(g|grams?|ml)\b/i;
+
+// Parses a serving size such as "2/3 cup (55g)", "55 g" or "1 bar"
+export const parseServingSize = (text: string): ServingInfo => {
+  const info: ServingInfo = {};
+
+  const parenthetical = text.match(/\(([^)]*)\)/);
+  const weight = parenthetical?.[1].match(WEIGHT) ?? text.match(WEIGHT);
+  if (weight) {
+    info.amount = parseFloat(weight[1].replace(',', '.'));
+    info.unit = weight[2].toLowerCase() === 'ml' ? 'ml' : 'g';
+  }
+
+  let household = text.replace(/\([^)]*\)/g, ' ');
+  if (weight && !parenthetical) household = household.replace(weight[0], ' ');
+  household = household.replace(/\s+/g, ' ').replace(/^[\s:.,-]+|[\s:.,-]+$/g, '');
+  if (/[a-z]/i.test(household)) info.householdMeasure = household;
+
+  return info;
+};
+
+// Formats serving info the way it is stored in foods.serving_size
+export const formatServingSize = (info: ServingInfo): string | null => {
+  const weight = info.amount ? `${info.amount}${info.unit ?? 'g'}` : '';
+  if (info.householdMeasure && weight) return `${info.householdMeasure} (${weight})`;
+  return info.householdMeasure || weight || null;
+};
+
+// Converts an amount eaten into a number of servings, or null when the
+// serving info needed for that conversion is missing
+export const toServings = (quantity: number, unit: QuantityUnit, info: ServingInfo): number | null => {
+  switch (unit) {
+    case 'serving':
+      return quantity;
+    case 'amount':
+      return info.amount ? quantity / info.amount : null;
+    case 'container':
+      return info.servingsPerContainer ? quantity * info.servingsPerContainer : null;
+  }
+};
@@ -0,0 +1,12 @@
+import { AuthWrapper } from "@/components/auth/AuthWrapper";
+import { FoodLibrary } from "@/components/library/FoodLibrary";
+
+const Foods = () => {
+  return (
+    <AuthWrapper>
+      <FoodLibrary />
+    </AuthWrapper>
+  );
+};
+
+export default Foods;
@@ -0,0 +1,15 @@
+import { useParams } from "react-router-dom";
+import { AuthWrapper } from "@/components/auth/AuthWrapper";
+import { RecipeBuilder } from "@/components/library/RecipeBuilder";
+
+const Recipe = () => {
+  const { id } = useParams();
+
+  return (
+    <AuthWrapper>
+      <RecipeBuilder key={id ?? 'new'} recipeId={id} />
+    </AuthWrapper>
+  );
+};
+
+export default Recipe;
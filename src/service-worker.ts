@@ -0,0 +1,99 @@
+/// <reference lib="webworker" />
+
+// Served as /sw.js in production builds; see the service worker plugin in
+// vite.config.ts, which fills in the build's files and version below. Keeps
+// the app shell and the OCR engine on the device so the app starts and scans
+// without a connection.
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Replaced at build time: every file the build writes, relative to the site
+// root, and a hash of their contents
+declare const __PRECACHE_FILES__: string[];
+declare const __BUILD_VERSION__: string;
+
+const APP_CACHE = `app-${__BUILD_VERSION__}`;
+// Language data outlives app updates; it's large and never changes
+const LANGUAGE_CACHE = 'tesseract-languages';
+
+// Where Tesseract downloads language data from when no langPath is given
+const LANGUAGE_DATA = 'https://cdn.jsdelivr.net/npm/@tesseract.js-data/';
+// English is loaded ahead of the first scan (see warmUpOcr), so it's fetched
+// up front; other languages are kept once they've been used
+const PRECACHED_LANGUAGES = ['eng'];
+
+const scoped = (path: string) => new URL(path, self.registration.scope).href;
+
+const cacheLanguages = async () => {
+  const cache = await caches.open(LANGUAGE_CACHE);
+  for (const language of PRECACHED_LANGUAGES) {
+    const url = `${LANGUAGE_DATA}${language}/4.0.0_best_int/${language}.traineddata.gz`;
+    if (!(await cache.match(url))) await cache.add(url);
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(APP_CACHE);
+      // Past the HTTP cache, so a stale index.html can't point at the
+      // previous build's files
+      await cache.addAll(__PRECACHE_FILES__.map((file) => new Request(scoped(file), { cache: 'reload' })));
+      // Scanning can still fetch it later, so a failure here doesn't hold up
+      // the install
+      await cacheLanguages().catch((error) => console.error('Error caching OCR languages:', error));
+    })()
+  );
+});
+
+// Old builds are cleared out once this one takes over
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        if (name.startsWith('app-') && name !== APP_CACHE) await caches.delete(name);
+      }
+      await self.clients.claim();
+    })()
+  );
+});
+
+// A new build waits until the page asks for it, so an open page isn't
+// switched over mid-use
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const fromCache = async (cacheName: string, request: Request | string) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // Every route is the same page; the router takes it from there
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(fromCache(APP_CACHE, scoped('index.html')));
+    return;
+  }
+
+  if (url.href.startsWith(LANGUAGE_DATA)) {
+    event.respondWith(fromCache(LANGUAGE_CACHE, request));
+    return;
+  }
+
+  // The build's own files. Everything else, like Supabase and product
+  // lookups, goes straight to the network.
+  if (__PRECACHE_FILES__.some((file) => scoped(file) === url.href)) {
+    event.respondWith(fromCache(APP_CACHE, request));
+  }
+});
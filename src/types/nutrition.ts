@@ -14,4 +14,108 @@ export interface NutritionData {
   calcium?: number;
   iron?: number;
   potassium?: number;
-}
\ No newline at end of file
+}
+
+export type NutrientKey = keyof NutritionData;
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+// Targets for one meal; unset nutrients have no target
+export type MealGoals = Partial<Pick<NutritionData, 'calories' | 'protein' | 'carbs' | 'fat'>>;
+
+// Where on the OCR text a value was read from (offsets into the raw text)
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// A recognized word: where its text sits in the OCR text and on the photo
+export interface LabelWord extends TextSpan {
+  bbox: BoundingBox;
+}
+
+export interface ParsedNutrient {
+  value: number;
+  unit: string;
+  match: TextSpan;
+  // 0-1, how much we trust the value read from the label
+  confidence: number;
+  // Printed as "<1g" / "less than 1g": value is an upper bound
+  lessThan?: boolean;
+  // Only a %DV was printed; value was worked out from the FDA Daily Value
+  percentDailyValue?: number;
+}
+
+export type ParsedNutrition = Partial<Record<NutrientKey, ParsedNutrient>>;
+
+export type ServingUnit = 'g' | 'ml';
+
+export interface ServingInfo {
+  // e.g. "2/3 cup", as printed on the label
+  householdMeasure?: string;
+  // Weight or volume of one serving, e.g. 55 (g)
+  amount?: number;
+  unit?: ServingUnit;
+  servingsPerContainer?: number;
+}
+
+export interface ParsedServing extends ServingInfo {
+  matches: TextSpan[];
+}
+
+// 'us' is the FDA Nutrition Facts panel, 'eu' the EU/UK per 100 g table
+export type LabelFormat = 'us' | 'eu';
+
+export type LabelLanguage = 'en' | 'fr' | 'es' | 'de' | 'it';
+
+// 'portion' is one serving; 'container' is the whole package on US
+// dual-column labels
+export type ColumnBasis = 'per100' | 'portion' | 'container';
+
+// One column of a multi-column nutrition table
+export interface LabelColumn {
+  basis: ColumnBasis;
+  heading?: TextSpan;
+  // What the column's values refer to, e.g. 100 g or a 30 g portion
+  serving: ServingInfo;
+  nutrients: ParsedNutrition;
+}
+
+// The major food allergens declared on US and EU labels
+export type Allergen =
+  | 'milk'
+  | 'egg'
+  | 'peanut'
+  | 'treeNut'
+  | 'soy'
+  | 'wheat'
+  | 'fish'
+  | 'shellfish'
+  | 'sesame';
+
+export interface ParsedIngredients {
+  // Top-level ingredients in label order; sub-ingredients stay in parentheses
+  items: string[];
+  // From the ingredient names and any "Contains:" statement
+  allergens: Allergen[];
+  matches: TextSpan[];
+}
+
+export interface LabelParseResult {
+  text: string;
+  format: LabelFormat;
+  language: LabelLanguage;
+  // The values to log, taken from the most useful column
+  nutrients: ParsedNutrition;
+  serving?: ParsedServing;
+  columns?: LabelColumn[];
+  ingredients?: ParsedIngredients;
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'local' keeps data in the browser instead of Supabase
+  readonly VITE_DATA_BACKEND?: 'supabase' | 'local';
+}
@@ -0,0 +1,4 @@
+-- Servings per container, read from the label, so a food can be logged as
+-- a fraction of the package ("half the bag")
+ALTER TABLE public.foods
+  ADD COLUMN servings_per_container NUMERIC;
@@ -0,0 +1,29 @@
+-- Barcodes of packaged products the user has scanned, each pointing at the
+-- food it was saved as, so scanning the same package again skips OCR
+CREATE TABLE public.products (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- GTIN-13 (UPC-A codes get a leading 0) or EAN-8
+  barcode TEXT NOT NULL,
+  food_id UUID NOT NULL REFERENCES public.foods(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, barcode)
+);
+
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own products"
+  ON public.products FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own products"
+  ON public.products FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own products"
+  ON public.products FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own products"
+  ON public.products FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Ingredient list and detected allergens read from the label. Entries keep
+-- their own copy of the allergens so the day's list can warn without a join.
+ALTER TABLE public.foods
+  ADD COLUMN ingredients TEXT[],
+  ADD COLUMN allergens TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.food_entries
+  ADD COLUMN allergens TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,7 @@
+-- Nutrients whose value is an upper bound because the label printed "<1g" or
+-- "less than 1g", stored as NutritionData keys (e.g. '{protein}')
+ALTER TABLE public.foods
+  ADD COLUMN less_than TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.food_entries
+  ADD COLUMN less_than TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,40 @@
+-- The rest of NutritionData. Entries and saved foods leave a nutrient NULL
+-- when the label didn't give it; daily totals count those as 0.
+ALTER TABLE public.food_entries
+  ADD COLUMN saturated_fat NUMERIC,
+  ADD COLUMN trans_fat NUMERIC,
+  ADD COLUMN cholesterol NUMERIC,
+  ADD COLUMN sodium NUMERIC,
+  ADD COLUMN fiber NUMERIC,
+  ADD COLUMN sugar NUMERIC,
+  ADD COLUMN added_sugar NUMERIC,
+  ADD COLUMN vitamin_d NUMERIC,
+  ADD COLUMN calcium NUMERIC,
+  ADD COLUMN iron NUMERIC,
+  ADD COLUMN potassium NUMERIC;
+
+ALTER TABLE public.foods
+  ADD COLUMN saturated_fat_per_serving NUMERIC,
+  ADD COLUMN trans_fat_per_serving NUMERIC,
+  ADD COLUMN cholesterol_per_serving NUMERIC,
+  ADD COLUMN sodium_per_serving NUMERIC,
+  ADD COLUMN fiber_per_serving NUMERIC,
+  ADD COLUMN sugar_per_serving NUMERIC,
+  ADD COLUMN added_sugar_per_serving NUMERIC,
+  ADD COLUMN vitamin_d_per_serving NUMERIC,
+  ADD COLUMN calcium_per_serving NUMERIC,
+  ADD COLUMN iron_per_serving NUMERIC,
+  ADD COLUMN potassium_per_serving NUMERIC;
+
+ALTER TABLE public.daily_logs
+  ADD COLUMN total_saturated_fat NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN total_trans_fat NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN total_cholesterol NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN total_sodium NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN total_fiber NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN total_sugar NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN total_added_sugar NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN total_vitamin_d NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN total_calcium NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN total_iron NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN total_potassium NUMERIC NOT NULL DEFAULT 0;
@@ -0,0 +1,42 @@
+-- Recipes are foods built from other foods. Their per-serving values are
+-- worked out from the ingredients and the yield, and recalculated by the app
+-- whenever an ingredient changes.
+ALTER TABLE public.foods
+  ADD COLUMN is_recipe BOOLEAN NOT NULL DEFAULT false,
+  -- How much the recipe makes: a number of servings, or a cooked weight in grams
+  ADD COLUMN recipe_yield NUMERIC,
+  ADD COLUMN recipe_yield_unit TEXT CHECK (recipe_yield_unit IN ('serving', 'g'));
+
+CREATE TABLE public.recipe_ingredients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.foods(id) ON DELETE CASCADE,
+  -- Foods in a recipe can't be deleted until they are taken out of it
+  food_id UUID NOT NULL REFERENCES public.foods(id) ON DELETE RESTRICT,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  -- 'serving' counts servings of the food; 'amount' is grams or ml of it
+  unit TEXT NOT NULL DEFAULT 'serving' CHECK (unit IN ('serving', 'amount')),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX recipe_ingredients_recipe_id_idx ON public.recipe_ingredients (recipe_id);
+CREATE INDEX recipe_ingredients_food_id_idx ON public.recipe_ingredients (food_id);
+
+ALTER TABLE public.recipe_ingredients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recipe ingredients"
+  ON public.recipe_ingredients FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recipe ingredients"
+  ON public.recipe_ingredients FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recipe ingredients"
+  ON public.recipe_ingredients FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recipe ingredients"
+  ON public.recipe_ingredients FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,38 @@
+-- Which meal each entry belongs to. Entries logged before this have no
+-- reliable time of day to go on, so they start out as snacks.
+ALTER TABLE public.food_entries
+  ADD COLUMN meal TEXT NOT NULL DEFAULT 'snack'
+    CHECK (meal IN ('breakfast', 'lunch', 'dinner', 'snack'));
+
+-- Optional targets for a single meal, e.g. a 40 g protein breakfast. NULL
+-- means no target for that nutrient.
+CREATE TABLE public.meal_goals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  meal TEXT NOT NULL CHECK (meal IN ('breakfast', 'lunch', 'dinner', 'snack')),
+  calories NUMERIC,
+  protein NUMERIC,
+  carbs NUMERIC,
+  fat NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, meal)
+);
+
+ALTER TABLE public.meal_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own meal goals"
+  ON public.meal_goals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own meal goals"
+  ON public.meal_goals FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own meal goals"
+  ON public.meal_goals FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own meal goals"
+  ON public.meal_goals FOR DELETE
+  USING (auth.uid() = user_id);
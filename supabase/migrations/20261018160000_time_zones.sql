@@ -0,0 +1,11 @@
+-- IANA time zone (e.g. 'America/New_York') that decides which calendar day
+-- a meal is logged under. NULL follows the device's zone, which suits people
+-- who travel.
+ALTER TABLE public.profiles
+  ADD COLUMN time_zone TEXT;
+
+-- The zone an entry was logged in, so its day can be explained later even if
+-- the profile zone changes. NULL for entries logged before zones were
+-- tracked, whose day came from the UTC date.
+ALTER TABLE public.food_entries
+  ADD COLUMN time_zone TEXT;
@@ -0,0 +1,157 @@
+-- daily_logs totals are kept by the database instead of the browser. Every
+-- change to food_entries re-sums the affected logs in the same transaction,
+-- holding the log's row lock, so two tabs logging at once can't overwrite
+-- each other's totals.
+
+-- Sets a log's totals to the sum of its entries. The log row is locked
+-- before the entries are summed, and the sum is a separate statement, so it
+-- sees whatever a concurrent change committed while we waited for the lock.
+CREATE OR REPLACE FUNCTION public.recalculate_daily_log(log_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  t RECORD;
+BEGIN
+  PERFORM 1 FROM daily_logs WHERE id = log_id FOR UPDATE;
+
+  SELECT
+    SUM(calories) AS calories,
+    SUM(protein) AS protein,
+    SUM(carbs) AS carbs,
+    SUM(fat) AS fat,
+    SUM(saturated_fat) AS saturated_fat,
+    SUM(trans_fat) AS trans_fat,
+    SUM(cholesterol) AS cholesterol,
+    SUM(sodium) AS sodium,
+    SUM(fiber) AS fiber,
+    SUM(sugar) AS sugar,
+    SUM(added_sugar) AS added_sugar,
+    SUM(vitamin_d) AS vitamin_d,
+    SUM(calcium) AS calcium,
+    SUM(iron) AS iron,
+    SUM(potassium) AS potassium
+  INTO t
+  FROM food_entries
+  WHERE daily_log_id = log_id;
+
+  UPDATE daily_logs SET
+    total_calories = COALESCE(t.calories, 0),
+    total_protein = COALESCE(t.protein, 0),
+    total_carbs = COALESCE(t.carbs, 0),
+    total_fat = COALESCE(t.fat, 0),
+    total_saturated_fat = COALESCE(t.saturated_fat, 0),
+    total_trans_fat = COALESCE(t.trans_fat, 0),
+    total_cholesterol = COALESCE(t.cholesterol, 0),
+    total_sodium = COALESCE(t.sodium, 0),
+    total_fiber = COALESCE(t.fiber, 0),
+    total_sugar = COALESCE(t.sugar, 0),
+    total_added_sugar = COALESCE(t.added_sugar, 0),
+    total_vitamin_d = COALESCE(t.vitamin_d, 0),
+    total_calcium = COALESCE(t.calcium, 0),
+    total_iron = COALESCE(t.iron, 0),
+    total_potassium = COALESCE(t.potassium, 0)
+  WHERE id = log_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.food_entries_recalculate_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM recalculate_daily_log(NEW.daily_log_id);
+  END IF;
+  -- An update that moves an entry to another day changes both logs
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.daily_log_id IS DISTINCT FROM NEW.daily_log_id) THEN
+    PERFORM recalculate_daily_log(OLD.daily_log_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER food_entries_recalculate_totals
+  AFTER INSERT OR UPDATE OR DELETE ON public.food_entries
+  FOR EACH ROW EXECUTE FUNCTION public.food_entries_recalculate_totals();
+
+-- The id of the user's log for a day, creating it if needed. The lock stops
+-- two requests for the same new day from creating two logs.
+CREATE OR REPLACE FUNCTION public.get_or_create_daily_log(p_date DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  log_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(auth.uid()::text || p_date::text));
+
+  SELECT id INTO log_id FROM daily_logs WHERE user_id = auth.uid() AND date = p_date;
+  IF log_id IS NULL THEN
+    INSERT INTO daily_logs (user_id, date) VALUES (auth.uid(), p_date) RETURNING id INTO log_id;
+  END IF;
+
+  RETURN log_id;
+END;
+$$;
+
+-- Repairs the caller's logs whose totals no longer match their entries.
+-- Returns how many were fixed.
+CREATE OR REPLACE FUNCTION public.reconcile_daily_logs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  drifted UUID;
+  repaired INTEGER := 0;
+BEGIN
+  FOR drifted IN
+    SELECT l.id
+    FROM daily_logs AS l
+    CROSS JOIN LATERAL (
+      SELECT
+        COALESCE(SUM(e.calories), 0) AS calories,
+        COALESCE(SUM(e.protein), 0) AS protein,
+        COALESCE(SUM(e.carbs), 0) AS carbs,
+        COALESCE(SUM(e.fat), 0) AS fat,
+        COALESCE(SUM(e.saturated_fat), 0) AS saturated_fat,
+        COALESCE(SUM(e.trans_fat), 0) AS trans_fat,
+        COALESCE(SUM(e.cholesterol), 0) AS cholesterol,
+        COALESCE(SUM(e.sodium), 0) AS sodium,
+        COALESCE(SUM(e.fiber), 0) AS fiber,
+        COALESCE(SUM(e.sugar), 0) AS sugar,
+        COALESCE(SUM(e.added_sugar), 0) AS added_sugar,
+        COALESCE(SUM(e.vitamin_d), 0) AS vitamin_d,
+        COALESCE(SUM(e.calcium), 0) AS calcium,
+        COALESCE(SUM(e.iron), 0) AS iron,
+        COALESCE(SUM(e.potassium), 0) AS potassium
+      FROM food_entries AS e
+      WHERE e.daily_log_id = l.id
+    ) AS t
+    WHERE l.user_id = auth.uid()
+      AND (
+        l.total_calories, l.total_protein, l.total_carbs, l.total_fat,
+        l.total_saturated_fat, l.total_trans_fat, l.total_cholesterol, l.total_sodium,
+        l.total_fiber, l.total_sugar, l.total_added_sugar, l.total_vitamin_d,
+        l.total_calcium, l.total_iron, l.total_potassium
+      ) IS DISTINCT FROM (
+        t.calories, t.protein, t.carbs, t.fat,
+        t.saturated_fat, t.trans_fat, t.cholesterol, t.sodium,
+        t.fiber, t.sugar, t.added_sugar, t.vitamin_d,
+        t.calcium, t.iron, t.potassium
+      )
+  LOOP
+    PERFORM recalculate_daily_log(drifted);
+    repaired := repaired + 1;
+  END LOOP;
+
+  RETURN repaired;
+END;
+$$;
+
+-- Fix every log that has drifted so far
+SELECT public.recalculate_daily_log(id) FROM public.daily_logs;
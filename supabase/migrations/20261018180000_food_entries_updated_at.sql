@@ -0,0 +1,21 @@
+-- When an entry last changed, so an edit queued while offline can tell
+-- whether someone else changed the entry after it was made
+ALTER TABLE public.food_entries
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.food_entries SET updated_at = created_at;
+
+CREATE OR REPLACE FUNCTION public.food_entries_touch_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER food_entries_touch_updated_at
+  BEFORE UPDATE ON public.food_entries
+  FOR EACH ROW EXECUTE FUNCTION public.food_entries_touch_updated_at();
@@ -0,0 +1,15 @@
+-- Folds duplicate foods into the one being kept: their entries, barcodes and
+-- recipe ingredients move over, then the duplicates are deleted. One
+-- function, so a failure part way leaves the library as it was.
+CREATE OR REPLACE FUNCTION public.merge_foods(keep_id UUID, duplicate_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE food_entries SET food_id = keep_id WHERE food_id = ANY(duplicate_ids);
+  UPDATE products SET food_id = keep_id WHERE food_id = ANY(duplicate_ids);
+  UPDATE recipe_ingredients SET food_id = keep_id WHERE food_id = ANY(duplicate_ids);
+  DELETE FROM foods WHERE id = ANY(duplicate_ids);
+END;
+$$;
@@ -1,8 +1,57 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin, ResolvedConfig, transformWithEsbuild } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { createHash } from "crypto";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Builds src/service-worker.ts into /sw.js, telling it which files the build
+// wrote (including public/) so it can precache them. The version is a hash of
+// their contents, so any change to the app gives a new service worker.
+const serviceWorker = (): Plugin => {
+  let config: ResolvedConfig;
+
+  return {
+    name: "service-worker",
+    apply: "build",
+    configResolved(resolved) {
+      config = resolved;
+    },
+    // After the other plugins, so index.html is in the bundle
+    generateBundle: {
+      order: "post",
+      async handler(_, bundle) {
+        const files = new Map<string, string | Uint8Array>();
+        for (const output of Object.values(bundle)) {
+          files.set(output.fileName, output.type === "chunk" ? output.code : output.source);
+        }
+        if (config.publicDir && fs.existsSync(config.publicDir)) {
+          for (const entry of fs.readdirSync(config.publicDir, { recursive: true, withFileTypes: true })) {
+            if (!entry.isFile()) continue;
+            const file = path.join(entry.parentPath, entry.name);
+            files.set(path.relative(config.publicDir, file).split(path.sep).join("/"), fs.readFileSync(file));
+          }
+        }
+
+        const hash = createHash("sha256");
+        for (const [name, contents] of [...files].sort(([a], [b]) => a.localeCompare(b))) {
+          hash.update(name).update(contents);
+        }
+
+        const source = fs.readFileSync(path.resolve(__dirname, "src/service-worker.ts"), "utf-8");
+        const { code } = await transformWithEsbuild(source, "service-worker.ts", {
+          minify: true,
+          define: {
+            __PRECACHE_FILES__: JSON.stringify([...files.keys()].sort()),
+            __BUILD_VERSION__: JSON.stringify(hash.digest("hex").slice(0, 12)),
+          },
+        });
+        this.emitFile({ type: "asset", fileName: "sw.js", source: code });
+      },
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -13,6 +62,7 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    serviceWorker(),
   ].filter(Boolean),
   resolve: {
     alias: {